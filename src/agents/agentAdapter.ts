@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+
+/**
+ * The Bluetext server entry as an agent sees it, normalised across the
+ * different config formats so entries can be compared.
+ */
+export interface AgentServerEntry {
+    url: string;
+    transport: string;
+    enabled: boolean;
+    headers: Record<string, string>;
+}
+
+/**
+ * What an adapter needs to know to write the entry for one workspace folder.
+ */
+export interface AgentContext {
+    folder: vscode.WorkspaceFolder | undefined;
+    serverName: string;
+    url: string;
+    /** Headers from `bluetext.mcpHeaders` */
+    headers: Record<string, string>;
+    /** Token for the server from SecretStorage, if one is set */
+    token?: string;
+}
+
+/**
+ * Everything the wizard and commands need to set up one coding agent. Adding
+ * an agent means implementing this interface and registering the adapter in
+ * `agents/index.ts`; the wizard renders its choices from the registry.
+ */
+export interface AgentAdapter {
+    /** Stable id used in messages and settings, e.g. `cline` */
+    readonly id: string;
+    /** Name shown in logs and prompts */
+    readonly displayName: string;
+    /** Short label for the wizard's step button */
+    readonly shortName: string;
+    /** Base name of the server entry; multi-root folders get a suffix */
+    readonly serverName: string;
+    /** Whether the config lives in the workspace folder rather than globally */
+    readonly requiresFolder: boolean;
+    /** Transport value this agent's config should use for the Bluetext server */
+    readonly transport: string;
+    /** Where to get the agent, offered when diagnostics can't find it */
+    readonly installUrl: string;
+
+    /** Whether the agent looks installed on this machine */
+    detect(): Promise<boolean>;
+    /** Config file the entry is written to, if the agent uses one */
+    getConfigPath(folder: vscode.WorkspaceFolder | undefined): string | undefined;
+    /** Reads the current entry, or undefined when there is none */
+    readEntry(context: AgentContext): Promise<AgentServerEntry | undefined>;
+    /** Merges the Bluetext entry into the agent's config and writes it; throws on failure */
+    configure(context: AgentContext): Promise<void>;
+    /** Whether the current entry matches what `configure` would write */
+    verify(context: AgentContext): Promise<boolean>;
+    /** The entry `configure` writes for this context */
+    getExpectedEntry(context: AgentContext): AgentServerEntry;
+    /** Removes the Bluetext entry, leaving the rest of the config alone */
+    remove(context: AgentContext): Promise<void>;
+}
+
+/**
+ * Lists how an agent's current entry differs from the expected one; an empty
+ * list means the entry is up to date.
+ */
+export function compareEntries(expected: AgentServerEntry, actual: AgentServerEntry | undefined): string[] {
+    if (!actual) {
+        return ['Server entry is missing'];
+    }
+    const differences: string[] = [];
+    if (actual.url !== expected.url) {
+        differences.push(`URL is ${actual.url ?? '(none)'}, expected ${expected.url}`);
+    }
+    if (actual.transport !== expected.transport) {
+        differences.push(`Transport is ${actual.transport}, expected ${expected.transport}`);
+    }
+    if (actual.enabled !== expected.enabled) {
+        differences.push(expected.enabled ? 'Server is disabled' : 'Server is enabled');
+    }
+    // Values may be tokens, so only the header names are reported
+    for (const [name, value] of Object.entries(expected.headers)) {
+        if (actual.headers[name] === undefined) {
+            differences.push(`Header ${name} is missing`);
+        } else if (actual.headers[name] !== value) {
+            differences.push(`Header ${name} has another value`);
+        }
+    }
+    // A header left behind, like the Authorization of a cleared token, is drift too
+    for (const name of Object.keys(actual.headers)) {
+        if (expected.headers[name] === undefined) {
+            differences.push(`Header ${name} is not configured`);
+        }
+    }
+    return differences;
+}
+
+/**
+ * Shared behaviour for adapters. Verification is the same for every agent:
+ * the entry must match what `configure` writes.
+ */
+export abstract class BaseAgentAdapter implements AgentAdapter {
+    public abstract readonly id: string;
+    public abstract readonly displayName: string;
+    public abstract readonly shortName: string;
+    public abstract readonly serverName: string;
+    public abstract readonly requiresFolder: boolean;
+    public abstract readonly transport: string;
+    public abstract readonly installUrl: string;
+
+    public abstract detect(): Promise<boolean>;
+    public abstract getConfigPath(folder: vscode.WorkspaceFolder | undefined): string | undefined;
+    public abstract readEntry(context: AgentContext): Promise<AgentServerEntry | undefined>;
+    public abstract configure(context: AgentContext): Promise<void>;
+    public abstract remove(context: AgentContext): Promise<void>;
+
+    public async verify(context: AgentContext): Promise<boolean> {
+        return compareEntries(this.getExpectedEntry(context), await this.readEntry(context)).length === 0;
+    }
+
+    public getExpectedEntry(context: AgentContext): AgentServerEntry {
+        return { url: context.url, transport: this.transport, enabled: true, headers: this.getEntryHeaders(context) };
+    }
+
+    /**
+     * Headers written into the entry, replacing any it had. The token goes in
+     * as is, which suits configs only the user can read; agents whose config
+     * is shared override this to refer to the token instead.
+     */
+    protected getEntryHeaders(context: AgentContext): Record<string, string> {
+        return withAuthorization(context.headers, context.token);
+    }
+}
+
+/** Adds `Authorization: Bearer <token>` to the headers when there is a token */
+export function withAuthorization(headers: Record<string, string>, token: string | undefined): Record<string, string> {
+    const result = { ...headers };
+    if (token) {
+        result['Authorization'] = `Bearer ${token}`;
+    }
+    return result;
+}
+
+/** Reads the headers of a config entry, ignoring anything that isn't a string map */
+export function readEntryHeaders(server: any): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (typeof server?.headers === 'object' && server.headers !== null) {
+        for (const [name, value] of Object.entries(server.headers)) {
+            if (typeof value === 'string') {
+                headers[name] = value;
+            }
+        }
+    }
+    return headers;
+}
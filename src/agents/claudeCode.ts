@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { WizardPanel } from '../wizardPanel';
+import { FileWriter, UndoCommand } from '../fileWriter';
+import { findExecutable, ProcessResult, runProcess } from '../exec';
+import { getMcpServer, parseMcpJson, removeMcpServer, setMcpServer } from '../mcpJson';
+import { AgentContext, AgentServerEntry, BaseAgentAdapter, compareEntries, readEntryHeaders, withAuthorization } from './agentAdapter';
+import { getSettings } from '../settings';
+
+/**
+ * Where Claude Code keeps a server: `local` is private to this project,
+ * `project` is the shared .mcp.json and `user` applies to every project.
+ */
+export type ClaudeCodeScope = 'local' | 'project' | 'user';
+
+const PROJECT_CONFIG_FILE = '.mcp.json';
+// Entries name a variable Claude Code expands instead of the token, which
+// keeps it out of the shared .mcp.json and off the `claude` command line
+const TOKEN_ENV_VAR = 'BLUETEXT_MCP_TOKEN';
+
+export class ClaudeCodeAdapter extends BaseAgentAdapter {
+    public readonly id = 'claude-code';
+    public readonly displayName = 'Claude Code';
+    public readonly shortName = 'Claude';
+    public readonly serverName = 'polytope-mcp';
+    public readonly transport = 'http';
+    public readonly installUrl = 'https://claude.ai/code';
+    public readonly requiresFolder = false;
+
+    public async detect(): Promise<boolean> {
+        return findExecutable('claude') !== undefined;
+    }
+
+    /**
+     * Project scope lives in the folder's .mcp.json; user and local scope
+     * servers are kept in ~/.claude.json.
+     */
+    public getConfigPath(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        if (this.getScope(folder) === 'project') {
+            return folder ? path.join(folder.uri.fsPath, PROJECT_CONFIG_FILE) : undefined;
+        }
+        return this.getUserConfigPath();
+    }
+
+    /**
+     * Looks the server up the way Claude Code resolves it: local scope (per
+     * project in ~/.claude.json), then the project's .mcp.json, then user scope.
+     */
+    public async readEntry(context: AgentContext): Promise<AgentServerEntry | undefined> {
+        for (const scope of ['local', 'project', 'user'] as ClaudeCodeScope[]) {
+            const entry = this.readScopedEntry(context, scope);
+            if (entry) {
+                return entry;
+            }
+        }
+        return undefined;
+    }
+
+    public async configure(context: AgentContext): Promise<void> {
+        const panel = WizardPanel.getInstance();
+        const scope = this.getScope(context.folder);
+        const folderPath = context.folder?.uri.fsPath;
+        if (!folderPath && scope !== 'user') {
+            throw new Error(`Claude Code's ${scope} scope needs a workspace folder; open one or set bluetext.claudeCodeScope to "user"`);
+        }
+
+        panel.logToTerminal(`Claude Code scope: ${scope}`, 'info');
+        if (this.isUpToDate(context, scope)) {
+            panel.logToTerminal(`${context.serverName} is already registered with Claude Code`, 'info');
+            return;
+        }
+
+        if (context.token) {
+            panel.logToTerminal(`The token is not written into Claude Code's config; set ${TOKEN_ENV_VAR} where Claude Code runs`, 'info');
+        }
+        if (scope === 'project') {
+            await this.writeProjectEntry(context, folderPath!);
+            return;
+        }
+
+        // Claude Code refuses to add a name that exists, so replace it in place
+        const previous = this.readScopedServer(context, scope);
+        const existing = await this.runClaude(['mcp', 'get', context.serverName], folderPath);
+        if (existing.exitCode === 0 && previous) {
+            panel.logToTerminal(`Updating the existing ${context.serverName} registration...`, 'info');
+            const removed = await this.runClaude(['mcp', 'remove', '--scope', scope, context.serverName], folderPath);
+            this.ensureSucceeded(removed, 'claude mcp remove');
+        }
+
+        const headerArgs = Object.entries(this.getEntryHeaders(context)).flatMap(([name, value]) => ['--header', `${name}: ${value}`]);
+        const added = await this.runClaude(
+            ['mcp', 'add', '--transport', this.transport, '--scope', scope, context.serverName, context.url, ...headerArgs],
+            folderPath
+        );
+        this.ensureSucceeded(added, 'claude mcp add');
+        await FileWriter.getInstance().recordCommand(`Registered ${context.serverName} with Claude Code (${scope} scope)`, [
+            this.claudeCommand(['mcp', 'remove', '--scope', scope, context.serverName], folderPath),
+            ...(previous ? [this.claudeCommand(['mcp', 'add-json', '--scope', scope, context.serverName, JSON.stringify(previous)], folderPath)] : [])
+        ]);
+
+        // Ask Claude Code itself whether it now resolves the server
+        const registered = await this.runClaude(['mcp', 'get', context.serverName], folderPath);
+        if (registered.exitCode !== 0 || !registered.stdout.includes(context.url)) {
+            throw new Error(`claude mcp add succeeded but claude mcp get does not show ${context.serverName} with ${context.url}`);
+        }
+    }
+
+    public async remove(context: AgentContext): Promise<void> {
+        const scope = this.getScope(context.folder);
+        const folderPath = context.folder?.uri.fsPath;
+
+        if (scope === 'project') {
+            const configPath = this.getConfigPath(context.folder);
+            if (!configPath || !fs.existsSync(configPath)) {
+                return;
+            }
+            const result = removeMcpServer(fs.readFileSync(configPath, 'utf8'), context.serverName, 'mcpServers');
+            if (result.changed) {
+                await this.writeProjectConfig(configPath, result.content, `Removed ${context.serverName} from ${configPath}`);
+            }
+            return;
+        }
+
+        const previous = this.readScopedServer(context, scope);
+        if (!previous) {
+            return;
+        }
+        const removed = await this.runClaude(['mcp', 'remove', '--scope', scope, context.serverName], folderPath);
+        this.ensureSucceeded(removed, 'claude mcp remove');
+        await FileWriter.getInstance().recordCommand(`Removed ${context.serverName} from Claude Code (${scope} scope)`, [
+            this.claudeCommand(['mcp', 'add-json', '--scope', scope, context.serverName, JSON.stringify(previous)], folderPath)
+        ]);
+    }
+
+    private getScope(folder: vscode.WorkspaceFolder | undefined): ClaudeCodeScope {
+        return getSettings(folder).claudeCodeScope;
+    }
+
+    private getUserConfigPath(): string {
+        return path.join(os.homedir(), '.claude.json');
+    }
+
+    private getScopedConfigPath(folderPath: string | undefined, scope: ClaudeCodeScope): string | undefined {
+        if (scope === 'user') {
+            return this.getUserConfigPath();
+        }
+        if (!folderPath) {
+            return undefined;
+        }
+        return scope === 'local' ? this.getUserConfigPath() : path.join(folderPath, PROJECT_CONFIG_FILE);
+    }
+
+    // Local scope servers are kept per project in ~/.claude.json
+    private getServersPath(folderPath: string | undefined, scope: ClaudeCodeScope): string[] {
+        return scope === 'local' ? ['projects', folderPath ?? '', 'mcpServers'] : ['mcpServers'];
+    }
+
+    protected getEntryHeaders(context: AgentContext): Record<string, string> {
+        return withAuthorization(context.headers, context.token ? `\${${TOKEN_ENV_VAR}}` : undefined);
+    }
+
+    private isUpToDate(context: AgentContext, scope: ClaudeCodeScope): boolean {
+        return compareEntries(this.getExpectedEntry(context), this.readScopedEntry(context, scope)).length === 0;
+    }
+
+    private readScopedEntry(context: AgentContext, scope: ClaudeCodeScope): AgentServerEntry | undefined {
+        const server = this.readScopedServer(context, scope);
+        if (!server) {
+            return undefined;
+        }
+        return {
+            url: server.url,
+            transport: server.type ?? 'stdio',
+            enabled: true,
+            headers: readEntryHeaders(server)
+        };
+    }
+
+    // The server as Claude Code stores it, which `claude mcp add-json` takes back
+    private readScopedServer(context: AgentContext, scope: ClaudeCodeScope): any {
+        const folderPath = context.folder?.uri.fsPath;
+        const configPath = this.getScopedConfigPath(folderPath, scope);
+        return configPath
+            ? getMcpServer(this.readJson(configPath), context.serverName, this.getServersPath(folderPath, scope))
+            : undefined;
+    }
+
+    private async writeProjectEntry(context: AgentContext, folderPath: string): Promise<void> {
+        const configPath = path.join(folderPath, PROJECT_CONFIG_FILE);
+        const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf8') : '';
+        const headers = this.getEntryHeaders(context);
+        const result = setMcpServer(existing, context.serverName, {
+            type: this.transport,
+            url: context.url,
+            headers: Object.keys(headers).length > 0 ? headers : undefined
+        }, 'mcpServers');
+        WizardPanel.getInstance().logToTerminal(`Settings path: ${configPath}`, 'info');
+        await this.writeProjectConfig(configPath, result.content, `Configured ${context.serverName} in ${configPath}`);
+    }
+
+    private async writeProjectConfig(configPath: string, content: string, description: string): Promise<void> {
+        const written = await FileWriter.getInstance().write(configPath, content, { description });
+        if (written === 'cancelled') {
+            throw new Error(`Changes to ${PROJECT_CONFIG_FILE} were not applied`);
+        }
+    }
+
+    private async runClaude(args: string[], cwd: string | undefined): Promise<ProcessResult> {
+        WizardPanel.getInstance().logToTerminal(`Executing: claude ${args.join(' ')}`, 'info');
+        return runProcess('claude', args, { cwd });
+    }
+
+    private claudeCommand(args: string[], cwd: string | undefined): UndoCommand {
+        return { command: 'claude', args, cwd };
+    }
+
+    private ensureSucceeded(result: ProcessResult, description: string): void {
+        if (result.exitCode !== 0) {
+            const output = (result.stderr || result.stdout).trim();
+            throw new Error(`${description} exited with code ${result.exitCode}${output ? `: ${output}` : ''}`);
+        }
+    }
+
+    private readJson(filePath: string): any {
+        try {
+            return parseMcpJson(fs.readFileSync(filePath, 'utf8'));
+        } catch {
+            return undefined;
+        }
+    }
+}
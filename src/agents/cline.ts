@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { WizardPanel } from '../wizardPanel';
+import { FileWriter } from '../fileWriter';
+import { AgentContext, AgentServerEntry, BaseAgentAdapter, readEntryHeaders } from './agentAdapter';
+import { describeExtensionHost, resolveGlobalStorageFile, StorageLocation } from './globalStorage';
+
+const CLINE_EXTENSION_ID = 'saoudrizwan.claude-dev';
+
+export class ClineAdapter extends BaseAgentAdapter {
+    public readonly id = 'cline';
+    public readonly displayName = 'Cline';
+    public readonly shortName = 'Cline';
+    public readonly serverName = 'polytope';
+    public readonly transport = 'streamableHttp';
+    public readonly installUrl = `https://marketplace.visualstudio.com/items?itemName=${CLINE_EXTENSION_ID}`;
+    public readonly requiresFolder = false;
+
+    public async detect(): Promise<boolean> {
+        return vscode.extensions.getExtension(CLINE_EXTENSION_ID) !== undefined;
+    }
+
+    public getConfigPath(): string {
+        return this.locateSettings().path;
+    }
+
+    public async readEntry(context: AgentContext): Promise<AgentServerEntry | undefined> {
+        const config = this.readConfig();
+        const server = config?.mcpServers?.[context.serverName];
+        if (!server) {
+            return undefined;
+        }
+        return {
+            url: server.url,
+            transport: server.type ?? 'sse',
+            enabled: server.disabled !== true,
+            headers: readEntryHeaders(server)
+        };
+    }
+
+    public async configure(context: AgentContext): Promise<void> {
+        const panel = WizardPanel.getInstance();
+        const location = this.locateSettings();
+        const clineSettingsPath = location.path;
+
+        panel.logToTerminal(`Looking for Cline settings from ${describeExtensionHost()}:`, 'info');
+        for (const candidate of location.candidates) {
+            panel.logToTerminal(`  ${candidate.exists ? '✓' : '✗'} ${candidate.path} (${candidate.source})`, 'info');
+        }
+        panel.logToTerminal(`Settings path: ${clineSettingsPath}`, 'info');
+
+        let config: any = { mcpServers: {} };
+        if (fs.existsSync(clineSettingsPath)) {
+            panel.logToTerminal('Reading existing Cline settings...', 'info');
+            const existingContent = fs.readFileSync(clineSettingsPath, 'utf8');
+            if (existingContent.trim()) {
+                try {
+                    config = JSON.parse(existingContent);
+                } catch (parseError) {
+                    // Other servers live in this file too, so never replace it
+                    throw new Error(`${clineSettingsPath} contains invalid JSON; fix it and try again`);
+                }
+            } else {
+                panel.logToTerminal('Existing file is empty, creating new config...', 'info');
+            }
+        } else {
+            panel.logToTerminal('Creating new Cline settings file...', 'info');
+        }
+
+        config.mcpServers = config.mcpServers || {};
+        const current = config.mcpServers[context.serverName];
+        const headers = this.getEntryHeaders(context);
+        config.mcpServers[context.serverName] = {
+            ...current,
+            type: this.transport,
+            url: context.url,
+            headers: Object.keys(headers).length > 0 ? headers : undefined,
+            alwaysAllow: current?.alwaysAllow ?? [],
+            disabled: false
+        };
+
+        panel.logToTerminal(`Configuring ${context.serverName} server at ${context.url}`, 'info');
+
+        const result = await FileWriter.getInstance().write(clineSettingsPath, JSON.stringify(config, null, 2), {
+            description: `Configured ${context.serverName} in Cline settings`
+        });
+        if (result === 'cancelled') {
+            throw new Error('Changes to the Cline settings were not applied');
+        }
+    }
+
+    public async remove(context: AgentContext): Promise<void> {
+        const clineSettingsPath = this.getConfigPath();
+        const config = this.readConfig();
+        if (!config?.mcpServers?.[context.serverName]) {
+            return;
+        }
+        delete config.mcpServers[context.serverName];
+        const result = await FileWriter.getInstance().write(clineSettingsPath, JSON.stringify(config, null, 2), {
+            description: `Removed ${context.serverName} from Cline settings`
+        });
+        if (result === 'cancelled') {
+            throw new Error('Changes to the Cline settings were not applied');
+        }
+    }
+
+    // Cline runs on the same host as this extension, so its settings do too
+    private locateSettings(): StorageLocation {
+        return resolveGlobalStorageFile(CLINE_EXTENSION_ID, 'settings', 'cline_mcp_settings.json');
+    }
+
+    private readConfig(): any {
+        try {
+            return JSON.parse(fs.readFileSync(this.getConfigPath(), 'utf8'));
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WizardPanel } from '../wizardPanel';
+import { FileWriter } from '../fileWriter';
+import { addMcpInput, formatMcpJsonProblem, parseMcpJson, removeMcpServer, setMcpServer, validateMcpJson } from '../mcpJson';
+import { AgentContext, AgentServerEntry, BaseAgentAdapter, readEntryHeaders, withAuthorization } from './agentAdapter';
+
+// mcp.json is usually committed, so VS Code asks for the token and keeps it itself
+const TOKEN_INPUT_ID = 'bluetext-mcp-token';
+
+export class CopilotAdapter extends BaseAgentAdapter {
+    public readonly id = 'copilot';
+    public readonly displayName = 'Copilot';
+    public readonly shortName = 'Copilot';
+    public readonly serverName = 'polytope';
+    public readonly transport = 'http';
+    public readonly installUrl = 'https://marketplace.visualstudio.com/items?itemName=GitHub.copilot-chat';
+    public readonly requiresFolder = true;
+
+    public async detect(): Promise<boolean> {
+        return vscode.extensions.getExtension('GitHub.copilot-chat') !== undefined ||
+               vscode.extensions.getExtension('GitHub.copilot') !== undefined;
+    }
+
+    public getConfigPath(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        return folder ? path.join(folder.uri.fsPath, '.vscode', 'mcp.json') : undefined;
+    }
+
+    public async readEntry(context: AgentContext): Promise<AgentServerEntry | undefined> {
+        const server = this.readConfig(context.folder)?.servers?.[context.serverName];
+        if (!server) {
+            return undefined;
+        }
+        return {
+            url: server.url,
+            // VS Code treats entries with a url and no type as HTTP servers
+            transport: server.type ?? (server.url ? 'http' : 'stdio'),
+            enabled: true,
+            headers: readEntryHeaders(server)
+        };
+    }
+
+    public async configure(context: AgentContext): Promise<void> {
+        const panel = WizardPanel.getInstance();
+        const mcpJsonPath = this.getConfigPath(context.folder);
+        if (!mcpJsonPath) {
+            throw new Error('Please open a workspace folder first');
+        }
+
+        panel.logToTerminal(`Settings path: ${mcpJsonPath}`, 'info');
+
+        const existing = fs.existsSync(mcpJsonPath) ? fs.readFileSync(mcpJsonPath, 'utf8') : '';
+        const headers = this.getEntryHeaders(context);
+        const result = setMcpServer(existing, context.serverName, {
+            type: this.transport,
+            url: context.url,
+            headers: Object.keys(headers).length > 0 ? headers : undefined
+        });
+        if (context.token) {
+            const withInput = addMcpInput(result.content, {
+                id: TOKEN_INPUT_ID,
+                type: 'promptString',
+                description: `Token for ${context.url}`,
+                password: true
+            });
+            result.content = withInput.content;
+            result.changed = result.changed || withInput.changed;
+        }
+        if (!result.changed) {
+            panel.logToTerminal(`${context.serverName} is already configured in mcp.json`, 'info');
+            return;
+        }
+
+        const problems = validateMcpJson(parseMcpJson(result.content));
+        for (const problem of problems) {
+            panel.logToTerminal(`mcp.json: ${formatMcpJsonProblem(problem)}`, 'error');
+        }
+        if (problems.some(problem => problem.path[0] === 'servers' && problem.path[1] === context.serverName)) {
+            throw new Error(`The ${context.serverName} entry does not match the VS Code MCP schema`);
+        }
+
+        panel.logToTerminal(`Configuring ${context.serverName} server at ${context.url}`, 'info');
+        const written = await FileWriter.getInstance().write(mcpJsonPath, result.content, {
+            description: `Configured ${context.serverName} in ${mcpJsonPath}`
+        });
+        if (written === 'cancelled') {
+            throw new Error('Changes to mcp.json were not applied');
+        }
+        panel.logToTerminal(`File location: ${mcpJsonPath}`, 'info');
+    }
+
+    public async remove(context: AgentContext): Promise<void> {
+        const mcpJsonPath = this.getConfigPath(context.folder);
+        if (!mcpJsonPath || !fs.existsSync(mcpJsonPath)) {
+            return;
+        }
+        const result = removeMcpServer(fs.readFileSync(mcpJsonPath, 'utf8'), context.serverName);
+        if (!result.changed) {
+            return;
+        }
+        const written = await FileWriter.getInstance().write(mcpJsonPath, result.content, {
+            description: `Removed ${context.serverName} from ${mcpJsonPath}`
+        });
+        if (written === 'cancelled') {
+            throw new Error('Changes to mcp.json were not applied');
+        }
+    }
+
+    protected getEntryHeaders(context: AgentContext): Record<string, string> {
+        return withAuthorization(context.headers, context.token ? `\${input:${TOKEN_INPUT_ID}}` : undefined);
+    }
+
+    private readConfig(folder: vscode.WorkspaceFolder | undefined): any {
+        const mcpJsonPath = this.getConfigPath(folder);
+        if (!mcpJsonPath) {
+            return undefined;
+        }
+        try {
+            return parseMcpJson(fs.readFileSync(mcpJsonPath, 'utf8'));
+        } catch {
+            return undefined;
+        }
+    }
+}
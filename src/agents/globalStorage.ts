@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** A place another extension's file may live, and why it was considered */
+export interface StorageCandidate {
+    path: string;
+    source: string;
+    exists: boolean;
+}
+
+/** Where a file in global storage was found, and every place that was checked */
+export interface StorageLocation {
+    path: string;
+    candidates: StorageCandidate[];
+}
+
+/** A globalStorage directory, holding one folder per extension */
+export interface StorageDirectory {
+    path: string;
+    source: string;
+}
+
+/** What decides where the editor keeps global storage */
+export interface ExtensionHost {
+    /** `vscode.env.appName` */
+    appName: string;
+    /** `vscode.env.remoteName`; undefined when extensions run locally */
+    remoteName: string | undefined;
+    platform: NodeJS.Platform;
+    env: NodeJS.ProcessEnv;
+    homedir: string;
+    /** This extension's own global storage, when it is on disk */
+    ownStoragePath?: string;
+}
+
+interface EditorProduct {
+    /** Folder under the platform's app data directory on the desktop */
+    userDataFolder: string;
+    /** Folder in the home directory the server uses on remote hosts */
+    serverFolder: string;
+}
+
+// Matched against vscode.env.appName; the first match wins
+const PRODUCTS: [RegExp, EditorProduct][] = [
+    [/cursor/i, { userDataFolder: 'Cursor', serverFolder: '.cursor-server' }],
+    [/windsurf/i, { userDataFolder: 'Windsurf', serverFolder: '.windsurf-server' }],
+    [/vscodium.*insiders/i, { userDataFolder: 'VSCodium - Insiders', serverFolder: '.vscodium-server-insiders' }],
+    [/vscodium/i, { userDataFolder: 'VSCodium', serverFolder: '.vscodium-server' }],
+    [/insiders/i, { userDataFolder: 'Code - Insiders', serverFolder: '.vscode-server-insiders' }]
+];
+const DEFAULT_PRODUCT: EditorProduct = { userDataFolder: 'Code', serverFolder: '.vscode-server' };
+
+let ownStorageUri: vscode.Uri | undefined;
+
+/**
+ * Remembers this extension's global storage. Its parent is the globalStorage
+ * directory of the host the extension runs on, which is where Cline and other
+ * workspace extensions keep theirs, on a Remote-SSH, WSL or container host too.
+ */
+export function initializeGlobalStorage(context: vscode.ExtensionContext): void {
+    ownStorageUri = context.globalStorageUri;
+}
+
+/**
+ * Finds a file in another extension's global storage. The first candidate
+ * holding the file wins, then the first where that extension has storage at
+ * all; otherwise the file belongs in the first candidate.
+ */
+export function resolveGlobalStorageFile(extensionId: string, ...segments: string[]): StorageLocation {
+    return findStorageFile(getGlobalStorageDirectories(getExtensionHost()), extensionId, ...segments);
+}
+
+/** Resolves a file as `resolveGlobalStorageFile` does, in the given directories */
+export function findStorageFile(directories: StorageDirectory[], extensionId: string, ...segments: string[]): StorageLocation {
+    const candidates = directories.map(({ path: directory, source }) => {
+        const filePath = path.join(directory, extensionId, ...segments);
+        return { path: filePath, source, exists: fs.existsSync(filePath) };
+    });
+    const chosen = candidates.find(candidate => candidate.exists)
+        ?? candidates.find((_, index) => fs.existsSync(path.join(directories[index].path, extensionId)))
+        ?? candidates[0];
+    return { path: chosen.path, candidates };
+}
+
+/** Where the extension host runs, for log lines */
+export function describeExtensionHost(): string {
+    const remoteName = vscode.env.remoteName;
+    if (remoteName) {
+        return `the ${remoteName} host`;
+    }
+    return isCodeServer(vscode.env.appName) ? 'code-server' : `${vscode.env.appName} on this machine`;
+}
+
+/**
+ * The globalStorage directories to look in, most likely first: this
+ * extension's own, then the default for the editor, where it runs and how it
+ * was installed.
+ */
+export function getGlobalStorageDirectories(host: ExtensionHost): StorageDirectory[] {
+    const directories: StorageDirectory[] = [];
+    if (host.ownStoragePath) {
+        directories.push({ path: path.dirname(host.ownStoragePath), source: 'this editor\'s global storage' });
+    }
+
+    const product = getEditorProduct(host.appName);
+    if (host.remoteName) {
+        // The agent runs next to the VS Code server, not where the window is
+        const serverRoot = host.env.VSCODE_AGENT_FOLDER
+            || path.join(host.homedir, host.remoteName === 'codespaces' ? '.vscode-remote' : product.serverFolder);
+        directories.push({ path: path.join(serverRoot, 'data', 'User', 'globalStorage'), source: `${host.appName} server on the ${host.remoteName} host` });
+    } else if (isCodeServer(host.appName)) {
+        directories.push({ path: path.join(getCodeServerDataDir(host), 'User', 'globalStorage'), source: 'code-server default' });
+    } else if (host.env.VSCODE_PORTABLE) {
+        directories.push({ path: path.join(host.env.VSCODE_PORTABLE, 'user-data', 'User', 'globalStorage'), source: `${host.appName} portable mode` });
+    } else {
+        directories.push({ path: path.join(getAppDataDir(host), product.userDataFolder, 'User', 'globalStorage'), source: `${host.appName} default` });
+    }
+
+    return directories.filter((directory, index) => directories.findIndex(other => other.path === directory.path) === index);
+}
+
+function getExtensionHost(): ExtensionHost {
+    return {
+        appName: vscode.env.appName,
+        remoteName: vscode.env.remoteName,
+        platform: process.platform,
+        env: process.env,
+        homedir: os.homedir(),
+        ownStoragePath: ownStorageUri?.scheme === 'file' ? ownStorageUri.fsPath : undefined
+    };
+}
+
+function getEditorProduct(appName: string): EditorProduct {
+    return PRODUCTS.find(([pattern]) => pattern.test(appName))?.[1] ?? DEFAULT_PRODUCT;
+}
+
+function isCodeServer(appName: string): boolean {
+    return /code-server/i.test(appName);
+}
+
+function getAppDataDir(host: ExtensionHost): string {
+    if (host.platform === 'win32') {
+        return host.env.APPDATA || path.join(host.homedir, 'AppData', 'Roaming');
+    }
+    if (host.platform === 'darwin') {
+        return path.join(host.homedir, 'Library', 'Application Support');
+    }
+    return host.env.XDG_CONFIG_HOME || path.join(host.homedir, '.config');
+}
+
+function getCodeServerDataDir(host: ExtensionHost): string {
+    if (host.platform === 'darwin') {
+        return path.join(host.homedir, 'Library', 'Application Support', 'code-server');
+    }
+    return path.join(host.env.XDG_DATA_HOME || path.join(host.homedir, '.local', 'share'), 'code-server');
+}
@@ -0,0 +1,43 @@
+import { AgentAdapter } from './agentAdapter';
+import { ClineAdapter } from './cline';
+import { ClaudeCodeAdapter } from './claudeCode';
+import { CopilotAdapter } from './copilot';
+
+export { AgentAdapter, AgentContext, AgentServerEntry, compareEntries } from './agentAdapter';
+
+export interface AgentDescriptor {
+    id: string;
+    displayName: string;
+    shortName: string;
+    detected: boolean;
+}
+
+const adapters = new Map<string, AgentAdapter>();
+
+export function registerAgent(adapter: AgentAdapter): void {
+    adapters.set(adapter.id, adapter);
+}
+
+export function getAgents(): AgentAdapter[] {
+    return [...adapters.values()];
+}
+
+export function getAgent(id: string): AgentAdapter | undefined {
+    return adapters.get(id);
+}
+
+/**
+ * Summaries of every registered agent for the wizard to render its choices.
+ */
+export async function describeAgents(): Promise<AgentDescriptor[]> {
+    return Promise.all(getAgents().map(async adapter => ({
+        id: adapter.id,
+        displayName: adapter.displayName,
+        shortName: adapter.shortName,
+        detected: await adapter.detect().catch(() => false)
+    })));
+}
+
+registerAgent(new ClineAdapter());
+registerAgent(new ClaudeCodeAdapter());
+registerAgent(new CopilotAdapter());
@@ -1,61 +1,107 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { WizardPanel } from './wizardPanel';
 import { McpService } from './mcpService';
+import { McpAuth } from './mcpAuth';
+import { McpServerManager } from './serverManager';
+import { FileWriter } from './fileWriter';
+import { runProcess } from './exec';
+import { getServerName, resolveTargetFolders } from './workspaceFolders';
+import { getMcpPort, getMcpUrl, getServerCommand, getSettings, isRemoteEndpoint, updateWorkspaceSetting } from './settings';
+import { AgentAdapter, AgentContext, describeAgents, getAgent } from './agents';
+import {
+    createPolytopeContent,
+    getBluetextRepo,
+    hasBluetextInclude,
+    mergeBluetextInclude,
+    POLYTOPE_FILE_NAME,
+    validatePolytopeYml
+} from './polytopeYml';
+
+/**
+ * Returns the workspace folder a command should act on, asking the user to
+ * pick one in a multi-root workspace. Logs why when there is none to use.
+ */
+async function resolveFolder(folder: vscode.WorkspaceFolder | undefined, required: boolean = true): Promise<vscode.WorkspaceFolder | undefined> {
+    if (folder) {
+        return folder;
+    }
 
-export async function createPolytopeYml(skipPrompt: boolean = false): Promise<boolean> {
     const panel = WizardPanel.getInstance();
-    panel.logToTerminal('Creating polytope.yml...', 'command');
-    
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    const folders = await resolveTargetFolders();
+    if (!folders) {
+        panel.logToTerminal('Operation cancelled', 'info');
+        return undefined;
+    }
+    if (folders.length === 0 && required) {
         const errorMsg = 'Please open a workspace folder first';
         vscode.window.showErrorMessage(errorMsg);
         panel.logToTerminal(errorMsg, 'error');
+    }
+    return folders[0];
+}
+
+export async function createPolytopeYml(skipPrompt: boolean = false, folder?: vscode.WorkspaceFolder): Promise<boolean> {
+    const panel = WizardPanel.getInstance();
+    panel.logToTerminal('Creating polytope.yml...', 'command');
+    
+    const workspaceFolder = await resolveFolder(folder);
+    if (!workspaceFolder) {
         return false;
     }
 
-    const polytopeYmlPath = path.join(workspaceFolder.uri.fsPath, 'polytope.yml');
-    const polytopeContent = `include:
-  - repo: gh:bluetext-io/bluetext
-`;
+    const polytopeYmlPath = path.join(workspaceFolder.uri.fsPath, POLYTOPE_FILE_NAME);
+    const repoRef = getSettings(workspaceFolder).repoRef;
+    panel.logToTerminal(`Bluetext include: ${getBluetextRepo(repoRef)}`, 'info');
 
-    if (fs.existsSync(polytopeYmlPath)) {
+    let polytopeContent = createPolytopeContent(repoRef);
+    const exists = fs.existsSync(polytopeYmlPath);
+
+    if (exists) {
+        let existingContent: string;
         try {
-            const existingContent = fs.readFileSync(polytopeYmlPath, 'utf8').trim();
-            const requiredContent = polytopeContent.trim();
-            
-            if (existingContent === requiredContent) {
-                panel.logToTerminal('polytope.yml already exists with correct configuration', 'success');
-                return true;
-            }
+            existingContent = fs.readFileSync(polytopeYmlPath, 'utf8');
         } catch (error) {
-            panel.logToTerminal(`Error reading existing polytope.yml: ${error}`, 'error');
-        }
-        
-        if (skipPrompt) {
-            panel.logToTerminal('polytope.yml exists with different content, skipping...', 'info');
-            return true;
+            const errorMsg = `Error reading existing polytope.yml: ${error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            panel.logToTerminal(errorMsg, 'error');
+            return false;
         }
-        
-        panel.logToTerminal('polytope.yml already exists', 'info');
-        const overwrite = await vscode.window.showWarningMessage(
-            'polytope.yml already exists. Do you want to overwrite it?',
-            'Yes', 'No'
-        );
-        if (overwrite !== 'Yes') {
-            panel.logToTerminal('Operation cancelled by user', 'info');
+
+        const merged = mergeBluetextInclude(existingContent, repoRef);
+        if (merged.error) {
+            // Never replace a file we can't parse; the user has to fix it first
+            const errorMsg = `polytope.yml could not be parsed, leaving it unchanged: ${merged.error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            panel.logToTerminal(errorMsg, 'error');
             return false;
         }
+        if (!merged.changed) {
+            panel.logToTerminal('polytope.yml already includes Bluetext', 'success');
+            return true;
+        }
+        polytopeContent = merged.content;
     }
 
     try {
-        fs.writeFileSync(polytopeYmlPath, polytopeContent, 'utf8');
-        const successMsg = 'polytope.yml created successfully!';
+        // Changes to an existing file are previewed as a diff unless running unattended
+        const result = await FileWriter.getInstance().write(polytopeYmlPath, polytopeContent, {
+            description: exists ? `Added the Bluetext include to ${polytopeYmlPath}` : `Created ${polytopeYmlPath}`,
+            interactive: !skipPrompt
+        });
+        if (result === 'cancelled') {
+            panel.logToTerminal('Operation cancelled by user', 'info');
+            return false;
+        }
+        const successMsg = exists ? 'Bluetext include added to polytope.yml!' : 'polytope.yml created successfully!';
         panel.logToTerminal(successMsg, 'success');
         panel.logToTerminal(`File location: ${polytopeYmlPath}`, 'info');
+
+        const problems = validatePolytopeYml(polytopeContent);
+        if (problems.length > 0) {
+            panel.logToTerminal(`⚠️  polytope.yml has ${problems.length} problem(s), see the Problems panel`, 'error');
+        }
         
         if (!skipPrompt) {
             const document = await vscode.workspace.openTextDocument(polytopeYmlPath);
@@ -70,163 +116,129 @@ export async function createPolytopeYml(skipPrompt: boolean = false): Promise<bo
     }
 }
 
-export async function configureCline(): Promise<void> {
-    const panel = WizardPanel.getInstance();
-    panel.logToTerminal('Configuring Cline MCP settings...', 'command');
-    
-    const config = vscode.workspace.getConfiguration('bluetext');
-    const mcpPort = config.get<number>('mcpPort', 31338);
-
-    const codeServerPath = '/root/.local/share/code-server/User/globalStorage/saoudrizwan.claude-dev/settings/cline_mcp_settings.json';
-    let clineSettingsPath: string;
-
-    if (fs.existsSync(path.dirname(codeServerPath))) {
-        clineSettingsPath = codeServerPath;
-        panel.logToTerminal('Detected code-server environment', 'info');
-    } else {
-        const appData = process.env.APPDATA || 
-                        (process.platform === 'darwin' ? path.join(os.homedir(), 'Library', 'Application Support') : 
-                         path.join(os.homedir(), '.config'));
-        
-        const editorName = vscode.env.appName.toLowerCase().includes('vscodium') ? 'VSCodium' : 'Code';
-        
-        clineSettingsPath = path.join(
-            appData,
-            editorName,
-            'User',
-            'globalStorage',
-            'saoudrizwan.claude-dev',
-            'settings',
-            'cline_mcp_settings.json'
-        );
+/**
+ * Stores the Bluetext ref used by createPolytopeYml. It is saved as a
+ * workspace setting so every folder picks it up unless it overrides it.
+ */
+export async function setRepoRef(repoRef: string): Promise<void> {
+    if (getSettings().repoRef === repoRef) {
+        return;
     }
+    await updateWorkspaceSetting('repoRef', repoRef);
+    WizardPanel.getInstance().logToTerminal(`Bluetext ref set to ${repoRef || 'the default branch'}`, 'info');
+}
 
-    panel.logToTerminal(`Settings path: ${clineSettingsPath}`, 'info');
+export async function selectRepoRef(): Promise<void> {
+    const current = getSettings().repoRef;
+    const repoRef = await vscode.window.showInputBox({
+        title: 'Bluetext Version',
+        prompt: 'Branch, tag or commit of the Bluetext repository to include. Leave empty for the default branch.',
+        value: current,
+        placeHolder: 'main'
+    });
+    if (repoRef === undefined) {
+        return;
+    }
+    await setRepoRef(repoRef.trim());
+    WizardPanel.getInstance().sendRepoRef();
+}
 
-    try {
-        const settingsDir = path.dirname(clineSettingsPath);
-        if (!fs.existsSync(settingsDir)) {
-            panel.logToTerminal('Creating settings directory...', 'info');
-            fs.mkdirSync(settingsDir, { recursive: true });
-        }
+/**
+ * Builds what an agent adapter needs to write the Bluetext entry for a folder,
+ * including the server's token so agents can reach an authenticated endpoint.
+ */
+export async function getAgentContext(adapter: AgentAdapter, folder: vscode.WorkspaceFolder | undefined): Promise<AgentContext> {
+    return {
+        folder,
+        serverName: getServerName(folder, adapter.serverName),
+        url: getMcpUrl(folder),
+        headers: getSettings(folder).mcpHeaders,
+        token: await McpAuth.getInstance().getToken(folder)
+    };
+}
 
-        let config: any = { mcpServers: {} };
-        if (fs.existsSync(clineSettingsPath)) {
-            panel.logToTerminal('Reading existing Cline settings...', 'info');
-            try {
-                const existingContent = fs.readFileSync(clineSettingsPath, 'utf8');
-                if (existingContent.trim()) {
-                    config = JSON.parse(existingContent);
-                } else {
-                    panel.logToTerminal('Existing file is empty, creating new config...', 'info');
-                }
-            } catch (parseError) {
-                panel.logToTerminal('Existing file has invalid JSON, creating new config...', 'info');
-            }
-        } else {
-            panel.logToTerminal('Creating new Cline settings file...', 'info');
+async function pickAgent(placeHolder: string): Promise<AgentAdapter | undefined> {
+    // The preferred agent is listed first, so Enter picks it
+    const preferred = getSettings().preferredAgent;
+    const agents = (await describeAgents()).sort((a, b) => Number(b.id === preferred) - Number(a.id === preferred));
+    const picked = await vscode.window.showQuickPick(
+        agents.map(agent => ({
+            label: agent.displayName,
+            description: agent.detected ? undefined : 'not detected',
+            id: agent.id
+        })),
+        { placeHolder }
+    );
+    return picked ? getAgent(picked.id) : undefined;
+}
+
+export async function configureAgent(agentId?: string, folder?: vscode.WorkspaceFolder): Promise<boolean> {
+    const panel = WizardPanel.getInstance();
+
+    const adapter = agentId ? getAgent(agentId) : await pickAgent('Select the coding agent to configure');
+    if (!adapter) {
+        if (agentId) {
+            panel.logToTerminal(`Unknown agent: ${agentId}`, 'error');
         }
+        return false;
+    }
 
-        config.mcpServers = config.mcpServers || {};
-        config.mcpServers.polytope = {
-            type: "streamableHttp",
-            url: `http://localhost:${mcpPort}/mcp`,
-            alwaysAllow: [],
-            disabled: false
-        };
+    panel.logToTerminal(`Configuring ${adapter.displayName} MCP settings...`, 'command');
 
-        panel.logToTerminal(`Configuring polytope server at http://localhost:${mcpPort}/mcp`, 'info');
+    // Agents with global settings only need a folder to pick the server port
+    const workspaceFolder = folder ?? await resolveFolder(undefined, adapter.requiresFolder);
+    if (adapter.requiresFolder && !workspaceFolder) {
+        return false;
+    }
 
-        fs.writeFileSync(clineSettingsPath, JSON.stringify(config, null, 2), 'utf8');
-        
-        const successMsg = 'Cline MCP settings configured successfully!';
-        panel.logToTerminal(successMsg, 'success');
+    if (!await adapter.detect()) {
+        panel.logToTerminal(`${adapter.displayName} was not detected on this machine; writing its configuration anyway`, 'info');
+    }
+
+    try {
+        await adapter.configure(await getAgentContext(adapter, workspaceFolder));
+        panel.logToTerminal(`${adapter.displayName} MCP settings configured successfully!`, 'success');
+        return true;
     } catch (error) {
-        const errorMsg = `Failed to configure Cline: ${error}`;
+        const errorMsg = `Failed to configure ${adapter.displayName}: ${error instanceof Error ? error.message : error}`;
         vscode.window.showErrorMessage(errorMsg);
         panel.logToTerminal(errorMsg, 'error');
+        return false;
     }
 }
 
-export async function configureClaudeCode(): Promise<void> {
+export async function removeAgentConfig(agentId?: string, folder?: vscode.WorkspaceFolder): Promise<void> {
     const panel = WizardPanel.getInstance();
-    panel.logToTerminal('Configuring Claude Code MCP...', 'command');
-    
-    const config = vscode.workspace.getConfiguration('bluetext');
-    const mcpPort = config.get<number>('mcpPort', 31338);
-
-    const command = `claude mcp add polytope-mcp http://localhost:${mcpPort}/mcp`;
-    panel.logToTerminal(`Executing: ${command}`, 'info');
-
-    const terminal = vscode.window.createTerminal('Bluetext - Claude Code Setup');
-    terminal.show();
-    terminal.sendText(command);
-    
-    const msg = 'Claude Code MCP configuration command executed. Check the terminal for results.';
-    panel.logToTerminal(msg, 'success');
-}
 
-export async function configureCopilot(): Promise<void> {
-    const panel = WizardPanel.getInstance();
-    panel.logToTerminal('Configuring Copilot MCP settings...', 'command');
-    
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-        const errorMsg = 'Please open a workspace folder first';
-        vscode.window.showErrorMessage(errorMsg);
-        panel.logToTerminal(errorMsg, 'error');
+    const adapter = agentId ? getAgent(agentId) : await pickAgent('Select the coding agent to remove the Bluetext server from');
+    if (!adapter) {
         return;
     }
 
-    const config = vscode.workspace.getConfiguration('bluetext');
-    const mcpPort = config.get<number>('mcpPort', 31338);
-
-    const vscodeDir = path.join(workspaceFolder.uri.fsPath, '.vscode');
-    const mcpJsonPath = path.join(vscodeDir, 'mcp.json');
-
-    panel.logToTerminal(`Settings path: ${mcpJsonPath}`, 'info');
-
-    try {
-        if (!fs.existsSync(vscodeDir)) {
-            panel.logToTerminal('Creating .vscode directory...', 'info');
-            fs.mkdirSync(vscodeDir, { recursive: true });
-        }
-
-        panel.logToTerminal(`Configuring polytope server at http://localhost:${mcpPort}/mcp`, 'info');
-
-        // Create formatted JSON with tools array on one line
-        const jsonContent = `{
-  "servers": {
-    "polytope": {
-      "type": "sse",
-      "url": "http://localhost:${mcpPort}/mcp",
-      "tools": ["*"]
+    const workspaceFolder = folder ?? await resolveFolder(undefined, adapter.requiresFolder);
+    if (adapter.requiresFolder && !workspaceFolder) {
+        return;
     }
-  }
-}`;
 
-        fs.writeFileSync(mcpJsonPath, jsonContent, 'utf8');
-        
-        const successMsg = 'Copilot MCP settings configured successfully!';
-        panel.logToTerminal(successMsg, 'success');
-        panel.logToTerminal(`File location: ${mcpJsonPath}`, 'info');
+    const context = await getAgentContext(adapter, workspaceFolder);
+    panel.logToTerminal(`Removing ${context.serverName} from ${adapter.displayName}...`, 'command');
+    try {
+        await adapter.remove(context);
+        panel.logToTerminal(`Removed ${context.serverName} from ${adapter.displayName}`, 'success');
     } catch (error) {
-        const errorMsg = `Failed to configure Copilot: ${error}`;
+        const errorMsg = `Failed to remove ${adapter.displayName} configuration: ${error instanceof Error ? error.message : error}`;
         vscode.window.showErrorMessage(errorMsg);
         panel.logToTerminal(errorMsg, 'error');
     }
 }
 
-export async function initGit(): Promise<void> {
+export async function initGit(folder?: vscode.WorkspaceFolder): Promise<boolean> {
     const panel = WizardPanel.getInstance();
     panel.logToTerminal('Initializing Git repository...', 'command');
     
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = await resolveFolder(folder);
     if (!workspaceFolder) {
-        const errorMsg = 'Please open a workspace folder first';
-        vscode.window.showErrorMessage(errorMsg);
-        panel.logToTerminal(errorMsg, 'error');
-        return;
+        return false;
     }
 
     const gitPath = path.join(workspaceFolder.uri.fsPath, '.git');
@@ -234,28 +246,37 @@ export async function initGit(): Promise<void> {
     if (fs.existsSync(gitPath)) {
         const msg = 'Git repository already initialized';
         panel.logToTerminal(msg, 'info');
-        return;
+        return true;
     }
 
-    panel.logToTerminal('Executing: git init', 'info');
-    const terminal = vscode.window.createTerminal('Bluetext - Git Init');
-    terminal.show();
-    terminal.sendText('git init');
+    panel.logToTerminal(`Executing: git init (in ${workspaceFolder.uri.fsPath})`, 'info');
+    try {
+        const result = await runProcess('git', ['init'], { cwd: workspaceFolder.uri.fsPath });
+        if (result.exitCode !== 0) {
+            throw new Error(`git init exited with code ${result.exitCode}: ${(result.stderr || result.stdout).trim()}`);
+        }
+    } catch (error) {
+        const errorMsg = `Failed to initialize Git: ${error instanceof Error ? error.message : error}`;
+        vscode.window.showErrorMessage(errorMsg);
+        panel.logToTerminal(errorMsg, 'error');
+        return false;
+    }
     
     const successMsg = 'Git repository initialized!';
     panel.logToTerminal(successMsg, 'success');
+    return true;
 }
 
-export async function startMCP(): Promise<void> {
+export async function startMCP(folder?: vscode.WorkspaceFolder, revealOutput: boolean = true): Promise<boolean> {
     const panel = WizardPanel.getInstance();
     panel.logToTerminal('Starting MCP server...', 'command');
     
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = await resolveFolder(folder);
     if (!workspaceFolder) {
-        const errorMsg = 'Please open a workspace folder first';
-        vscode.window.showErrorMessage(errorMsg);
-        panel.logToTerminal(errorMsg, 'error');
-        return;
+        return false;
+    }
+    if (isRemoteEndpoint(workspaceFolder)) {
+        return connectToRemoteServer(workspaceFolder);
     }
 
     const polytopeYmlPath = path.join(workspaceFolder.uri.fsPath, 'polytope.yml');
@@ -266,113 +287,140 @@ export async function startMCP(): Promise<void> {
             'Yes', 'No'
         );
         if (create === 'Yes') {
-            await createPolytopeYml();
+            // Polytope can't start the server without the file
+            if (!await createPolytopeYml(false, workspaceFolder)) {
+                panel.logToTerminal('Not starting the MCP server without polytope.yml', 'error');
+                return false;
+            }
         } else {
             panel.logToTerminal('Operation cancelled', 'info');
-            return;
+            return false;
         }
     }
 
-    panel.logToTerminal('Executing: pt run --mcp', 'info');
+    const mcpPort = getMcpPort(workspaceFolder);
+    const manager = McpServerManager.forFolder(workspaceFolder);
+
+    if (manager.getState() === 'stopped' && await McpServerManager.isEndpointOpen(workspaceFolder)) {
+        panel.logToTerminal(`Port ${mcpPort} is already in use - assuming an MCP server is already running there`, 'info');
+        panel.updateStepStatus('server', 'done', workspaceFolder);
+        const mcpService = McpService.getInstance();
+        if (mcpService.getTargetFolder()?.uri.toString() === workspaceFolder.uri.toString()) {
+            mcpService.startHealthMonitoring();
+        }
+        return true;
+    }
+
+    const { command, args } = getServerCommand(workspaceFolder, mcpPort);
+    panel.logToTerminal(`Executing: ${[command, ...args].join(' ')}`, 'info');
     panel.logToTerminal(`Working directory: ${workspaceFolder.uri.fsPath}`, 'info');
+    panel.logToTerminal('Server output is streamed to the "Bluetext MCP Server" output channel', 'info');
     
-    const terminal = vscode.window.createTerminal({
-        name: 'Bluetext - MCP Server',
-        cwd: workspaceFolder.uri.fsPath
-    });
-    terminal.show();
-    terminal.sendText('pt run --mcp');
-    
-    const msg = 'MCP server starting... Check terminal for output. Server will run on http://localhost:31338';
-    panel.logToTerminal(msg, 'success');
+    if (revealOutput) {
+        manager.showOutput();
+    }
+    const ready = await manager.start(mcpPort);
+    if (ready) {
+        panel.logToTerminal(`MCP server running on ${getMcpUrl(workspaceFolder)}`, 'success');
+    }
+    return ready;
 }
 
-export async function runQuickStart(agentChoice: 'cline' | 'claude' | 'copilot'): Promise<void> {
+/**
+ * Stands in for starting a server when `bluetext.mcpUrl` points at one that
+ * runs elsewhere: checks its port answers and marks the server step
+ * accordingly. The health checks confirm it speaks MCP.
+ */
+async function connectToRemoteServer(workspaceFolder: vscode.WorkspaceFolder): Promise<boolean> {
     const panel = WizardPanel.getInstance();
-    panel.logToTerminal('='.repeat(50), 'info');
-    panel.logToTerminal('Starting Quick Setup...', 'command');
-    panel.logToTerminal('='.repeat(50), 'info');
-    
-    // Step 1: Initialize Git
-    panel.updateStepStatus(1, 'doing');
-    panel.logToTerminal('\n📦 Step 1/4: Initializing Git repository...', 'command');
-    try {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (workspaceFolder) {
-            const gitPath = path.join(workspaceFolder.uri.fsPath, '.git');
-            if (!fs.existsSync(gitPath)) {
-                await initGit();
-                await new Promise(resolve => setTimeout(resolve, 1000));
-            } else {
-                panel.logToTerminal('Git already initialized, skipping...', 'info');
-            }
-        }
-        panel.updateStepStatus(1, 'done');
-        await new Promise(resolve => setTimeout(resolve, 700));
-    } catch (error) {
-        panel.logToTerminal(`Git initialization failed: ${error}`, 'error');
-        panel.updateStepStatus(1, 'error');
+    const url = getMcpUrl(workspaceFolder);
+    panel.logToTerminal(`bluetext.mcpUrl is set, so no server is started; connecting to ${url}`, 'info');
+
+    if (!await McpServerManager.isEndpointOpen(workspaceFolder)) {
+        panel.logToTerminal(`❌ ${url} cannot be reached`, 'error');
+        panel.updateStepStatus('server', 'error', workspaceFolder);
+        return false;
     }
-    
-    // Step 2: Create polytope.yml
-    panel.updateStepStatus(2, 'doing');
-    panel.logToTerminal('\n📄 Step 2/4: Creating polytope.yml...', 'command');
-    try {
-        const success = await createPolytopeYml(true);
-        await new Promise(resolve => setTimeout(resolve, 500));
-        if (success) {
-            panel.updateStepStatus(2, 'done');
-            await new Promise(resolve => setTimeout(resolve, 700));
-        } else {
-            panel.updateStepStatus(2, 'error');
-            return;
-        }
-    } catch (error) {
-        panel.logToTerminal(`Failed to create polytope.yml: ${error}`, 'error');
-        panel.updateStepStatus(2, 'error');
+
+    panel.logToTerminal(`✅ MCP server at ${url} is reachable`, 'success');
+    panel.updateStepStatus('server', 'done', workspaceFolder);
+    const mcpService = McpService.getInstance();
+    if (mcpService.getTargetFolder()?.uri.toString() === workspaceFolder.uri.toString()) {
+        mcpService.startHealthMonitoring();
+    }
+    return true;
+}
+
+/**
+ * Starts the server of every folder that has `bluetext.autoStartMCP` on and
+ * whose polytope.yml includes Bluetext. Runs when folders open, so the
+ * server output isn't brought to the front.
+ */
+export async function autoStartMCP(folders: readonly vscode.WorkspaceFolder[]): Promise<void> {
+    // The command comes from workspace settings, so an untrusted folder could pick it
+    if (!vscode.workspace.isTrusted) {
         return;
     }
-    
-    // Step 3: Configure Agent
-    panel.updateStepStatus(3, 'doing');
-    const agentName = agentChoice === 'cline' ? 'Cline' : agentChoice === 'claude' ? 'Claude Code' : 'Copilot';
-    panel.logToTerminal(`\n⚙️  Step 3/4: Configuring ${agentName}...`, 'command');
-    try {
-        if (agentChoice === 'cline') {
-            await configureCline();
-        } else if (agentChoice === 'claude') {
-            await configureClaudeCode();
-        } else {
-            await configureCopilot();
+    for (const folder of folders) {
+        if (!getSettings(folder).autoStartMCP || isRemoteEndpoint(folder) || McpServerManager.forFolder(folder).getState() !== 'stopped') {
+            continue;
+        }
+        const content = await fs.promises.readFile(path.join(folder.uri.fsPath, POLYTOPE_FILE_NAME), 'utf8').catch(() => undefined);
+        if (content !== undefined && hasBluetextInclude(content)) {
+            await startMCP(folder, false);
         }
-        await new Promise(resolve => setTimeout(resolve, 500));
-        panel.updateStepStatus(3, 'done');
-        await new Promise(resolve => setTimeout(resolve, 700));
-    } catch (error) {
-        panel.logToTerminal(`Agent configuration failed: ${error}`, 'error');
-        panel.updateStepStatus(3, 'error');
     }
-    
-    // Step 4: Start MCP Server
-    panel.updateStepStatus(4, 'doing');
-    panel.logToTerminal('\n⚡ Step 4/4: Starting MCP server...', 'command');
-    try {
-        await startMCP();
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        panel.updateStepStatus(4, 'done');
-        
-        // Start health monitoring after server starts
-        // Wait longer (7 seconds) to give server time to fully initialize before first health check
-        panel.logToTerminal('Waiting for MCP server to fully initialize...', 'info');
-        await new Promise(resolve => setTimeout(resolve, 7000));
-        McpService.getInstance().startHealthMonitoring();
-    } catch (error) {
-        panel.logToTerminal(`Failed to start MCP server: ${error}`, 'error');
-        panel.updateStepStatus(4, 'error');
+}
+
+export async function stopMCP(folder?: vscode.WorkspaceFolder): Promise<void> {
+    const workspaceFolder = await resolveFolder(folder);
+    if (!workspaceFolder) {
+        return;
     }
-    
-    panel.logToTerminal('\n' + '='.repeat(50), 'info');
-    panel.logToTerminal('✅ Quick Setup Complete!', 'success');
-    panel.logToTerminal('='.repeat(50), 'info');
-    panel.logToTerminal('\nYou can now start using Bluetext tools with your coding agent!', 'info');
+
+    const manager = McpServerManager.forFolder(workspaceFolder);
+    if (manager.getState() === 'stopped') {
+        WizardPanel.getInstance().logToTerminal('MCP server is not running', 'info');
+        return;
+    }
+    await manager.stop();
+}
+
+export async function restartMCP(folder?: vscode.WorkspaceFolder): Promise<boolean> {
+    const workspaceFolder = await resolveFolder(folder);
+    if (!workspaceFolder) {
+        return false;
+    }
+
+    WizardPanel.getInstance().logToTerminal('Restarting MCP server...', 'command');
+    return McpServerManager.forFolder(workspaceFolder).restart();
+}
+
+export async function showServerOutput(folder?: vscode.WorkspaceFolder): Promise<void> {
+    const workspaceFolder = await resolveFolder(folder);
+    if (workspaceFolder) {
+        McpServerManager.forFolder(workspaceFolder).showOutput();
+    }
+}
+
+/**
+ * Stores a token for the folder's MCP server. Agents configured before
+ * then don't send it yet, which the drift check reports.
+ */
+export async function setMcpToken(folder?: vscode.WorkspaceFolder): Promise<void> {
+    const workspaceFolder = await resolveFolder(folder);
+    if (workspaceFolder) {
+        await McpAuth.getInstance().promptForCredentials(workspaceFolder);
+    }
+}
+
+export async function clearMcpToken(folder?: vscode.WorkspaceFolder): Promise<void> {
+    const workspaceFolder = await resolveFolder(folder);
+    if (workspaceFolder) {
+        await McpAuth.getInstance().clearCredentials(workspaceFolder);
+    }
+}
+
+export async function undoLastSetup(): Promise<void> {
+    await FileWriter.getInstance().undoLastTransaction();
 }
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import { WizardPanel } from './wizardPanel';
+import { FileWriter } from './fileWriter';
+import { getAgentContext, configureAgent } from './commands';
+import { getWorkspaceFolders } from './workspaceFolders';
+import { AgentAdapter, AgentServerEntry, compareEntries, getAgents } from './agents';
+
+export interface AgentDrift {
+    agentId: string;
+    agentName: string;
+    folder: vscode.WorkspaceFolder | undefined;
+    serverName: string;
+    configPath: string | undefined;
+    expected: AgentServerEntry;
+    actual: AgentServerEntry;
+    differences: string[];
+}
+
+/**
+ * Finds agent entries that no longer match what Bluetext would write, e.g.
+ * after `bluetext.mcpPort` changes. Agents without a Bluetext entry are not
+ * configured rather than drifted, so they are left out.
+ */
+export class ConfigDriftChecker {
+    private static instance: ConfigDriftChecker | undefined;
+    private drifts: AgentDrift[] = [];
+    private checking: Promise<AgentDrift[]> | undefined;
+
+    private constructor() {}
+
+    public static getInstance(): ConfigDriftChecker {
+        if (!ConfigDriftChecker.instance) {
+            ConfigDriftChecker.instance = new ConfigDriftChecker();
+        }
+        return ConfigDriftChecker.instance;
+    }
+
+    public getDrifts(): AgentDrift[] {
+        return this.drifts;
+    }
+
+    /**
+     * Re-reads every agent's entry and publishes the result to the wizard.
+     * Overlapping calls share the check already in flight.
+     */
+    public async check(): Promise<AgentDrift[]> {
+        if (!this.checking) {
+            this.checking = this.collectDrifts().finally(() => {
+                this.checking = undefined;
+            });
+        }
+        this.drifts = await this.checking;
+        this.sendToWizard();
+        return this.drifts;
+    }
+
+    /**
+     * Checks and, if anything drifted, tells the user with a way to fix it.
+     */
+    public async checkAndNotify(): Promise<void> {
+        const drifts = await this.check();
+        if (drifts.length === 0) {
+            return;
+        }
+
+        const summary = drifts.length === 1
+            ? `${drifts[0].agentName} points at an outdated Bluetext MCP server (${drifts[0].differences[0]})`
+            : `${drifts.length} agent configurations point at an outdated Bluetext MCP server`;
+        const choice = await vscode.window.showWarningMessage(summary, 'Repair All', 'Show Details');
+        if (choice === 'Repair All') {
+            await this.repairAll();
+        } else if (choice === 'Show Details') {
+            vscode.commands.executeCommand('bluetext.setupWizard');
+        }
+    }
+
+    /**
+     * Rewrites every drifted entry and checks again so the wizard reflects
+     * what is left.
+     */
+    public async repairAll(): Promise<void> {
+        const panel = WizardPanel.getInstance();
+        const drifts = await this.check();
+        if (drifts.length === 0) {
+            vscode.window.showInformationMessage('All agent configurations are up to date');
+            panel.logToTerminal('All agent configurations are up to date', 'success');
+            return;
+        }
+
+        panel.logToTerminal(`Repairing ${drifts.length} agent configuration(s)...`, 'command');
+        let failed = 0;
+        await FileWriter.getInstance().runTransaction('Repair agent configurations', async () => {
+            for (const drift of drifts) {
+                if (!await configureAgent(drift.agentId, drift.folder)) {
+                    failed++;
+                }
+            }
+        });
+
+        const remaining = await this.check();
+        if (failed > 0 || remaining.length > 0) {
+            const errorMsg = `${remaining.length} agent configuration(s) still differ from the expected setup`;
+            vscode.window.showWarningMessage(errorMsg);
+            panel.logToTerminal(errorMsg, 'error');
+        } else {
+            vscode.window.showInformationMessage('All agent configurations repaired');
+            panel.logToTerminal('All agent configurations repaired', 'success');
+        }
+    }
+
+    private async collectDrifts(): Promise<AgentDrift[]> {
+        const folders: (vscode.WorkspaceFolder | undefined)[] = [...getWorkspaceFolders()];
+        if (folders.length === 0) {
+            folders.push(undefined);
+        }
+
+        const drifts: AgentDrift[] = [];
+        for (const adapter of getAgents()) {
+            for (const folder of folders) {
+                if (adapter.requiresFolder && !folder) {
+                    continue;
+                }
+                const drift = await this.checkAgent(adapter, folder);
+                if (drift) {
+                    drifts.push(drift);
+                }
+            }
+        }
+        return drifts;
+    }
+
+    private async checkAgent(adapter: AgentAdapter, folder: vscode.WorkspaceFolder | undefined): Promise<AgentDrift | undefined> {
+        const context = await getAgentContext(adapter, folder);
+        let actual: AgentServerEntry | undefined;
+        try {
+            actual = await adapter.readEntry(context);
+        } catch {
+            return undefined;
+        }
+        if (!actual) {
+            return undefined;
+        }
+
+        const expected = adapter.getExpectedEntry(context);
+        const differences = compareEntries(expected, actual);
+        if (differences.length === 0) {
+            return undefined;
+        }
+        return {
+            agentId: adapter.id,
+            agentName: adapter.displayName,
+            folder,
+            serverName: context.serverName,
+            configPath: adapter.getConfigPath(folder),
+            expected,
+            actual,
+            differences
+        };
+    }
+
+    private sendToWizard(): void {
+        WizardPanel.getInstance().sendMessage({
+            command: 'configDrift',
+            drifts: this.drifts.map(drift => ({
+                agentName: drift.agentName,
+                folderName: drift.folder?.name,
+                serverName: drift.serverName,
+                configPath: drift.configPath,
+                differences: drift.differences
+            }))
+        });
+    }
+}
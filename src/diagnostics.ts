@@ -0,0 +1,319 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WizardPanel } from './wizardPanel';
+import { McpServerManager } from './serverManager';
+import { findExecutable, runProcess } from './exec';
+import { getWorkspaceFolders } from './workspaceFolders';
+import { getMcpEndpoint, getMcpPort, getMcpUrl, getSettings, isRemoteEndpoint } from './settings';
+import { getAgents } from './agents';
+
+export type CheckStatus = 'ok' | 'warning' | 'error';
+
+export interface DiagnosticFix {
+    title: string;
+    run: () => Thenable<unknown>;
+}
+
+export interface DiagnosticCheck {
+    id: string;
+    label: string;
+    status: CheckStatus;
+    detail: string;
+    /** Set for checks that apply to one workspace folder */
+    folder?: vscode.WorkspaceFolder;
+    fix?: DiagnosticFix;
+}
+
+export interface DiagnosticReport {
+    timestamp: Date;
+    checks: DiagnosticCheck[];
+}
+
+const POLYTOPE_INSTALL_URL = 'https://polytope.dev/docs/install';
+const GIT_INSTALL_URL = 'https://git-scm.com/downloads';
+const STATUS_ICONS: Record<CheckStatus, string> = { ok: '✅', warning: '⚠️', error: '❌' };
+
+/**
+ * Checks the tools and environment the wizard depends on, so missing
+ * prerequisites show up before a step fails half way.
+ */
+export class DiagnosticsService {
+    private static instance: DiagnosticsService | undefined;
+    private lastReport: DiagnosticReport | undefined;
+
+    private constructor() {}
+
+    public static getInstance(): DiagnosticsService {
+        if (!DiagnosticsService.instance) {
+            DiagnosticsService.instance = new DiagnosticsService();
+        }
+        return DiagnosticsService.instance;
+    }
+
+    public getLastReport(): DiagnosticReport | undefined {
+        return this.lastReport;
+    }
+
+    /**
+     * Runs every check and publishes the result to the wizard as the
+     * prerequisites step.
+     */
+    public async run(): Promise<DiagnosticReport> {
+        const panel = WizardPanel.getInstance();
+        const folders = getWorkspaceFolders();
+        this.setStepStatus(folders, () => 'doing');
+
+        const checks: DiagnosticCheck[] = [
+            await this.checkExecutable(getSettings(folders[0]).serverCommand, 'Polytope CLI', 'error', {
+                title: 'Install Polytope',
+                run: () => openUrl(POLYTOPE_INSTALL_URL)
+            }),
+            await this.checkExecutable('git', 'Git', 'warning', {
+                title: 'Install Git',
+                run: () => openUrl(GIT_INSTALL_URL)
+            }),
+            ...await this.checkAgents()
+        ];
+        if (folders.length === 0) {
+            checks.push({
+                id: 'workspace',
+                label: 'Workspace folder',
+                status: 'error',
+                detail: 'No folder is open',
+                fix: { title: 'Open Folder', run: () => vscode.commands.executeCommand('workbench.action.files.openFolder') }
+            });
+            checks.push(await this.checkPort(undefined));
+        }
+        for (const folder of folders) {
+            checks.push(await this.checkPort(folder));
+            checks.push(this.checkWritable(folder));
+        }
+
+        this.lastReport = { timestamp: new Date(), checks };
+        this.setStepStatus(folders, folder => {
+            const relevant = checks.filter(check => !check.folder || check.folder === folder);
+            return relevant.some(check => check.status === 'error') ? 'error' : 'done';
+        });
+        this.sendToWizard();
+
+        const problems = checks.filter(check => check.status !== 'ok');
+        if (problems.length === 0) {
+            panel.logToTerminal('All prerequisites are in place', 'success');
+        }
+        for (const problem of problems) {
+            panel.logToTerminal(`${STATUS_ICONS[problem.status]} ${describeCheck(problem)}: ${problem.detail}`, problem.status === 'error' ? 'error' : 'info');
+        }
+        return this.lastReport;
+    }
+
+    /**
+     * Runs the fix-it action of a check from the last report, then checks again.
+     */
+    public async runFix(checkId: string): Promise<void> {
+        const check = this.lastReport?.checks.find(candidate => candidate.id === checkId);
+        if (!check?.fix) {
+            return;
+        }
+        await check.fix.run();
+        await this.run();
+    }
+
+    /**
+     * Shows the report in a quick pick; picking a problem runs its fix.
+     */
+    public async showReport(): Promise<void> {
+        const report = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Bluetext: Running diagnostics...' },
+            () => this.run()
+        );
+
+        type Item = vscode.QuickPickItem & { checkId?: string; exportReport?: boolean };
+        const items: Item[] = report.checks.map(check => ({
+            label: `${STATUS_ICONS[check.status]} ${describeCheck(check)}`,
+            description: check.fix && check.status !== 'ok' ? `Fix: ${check.fix.title}` : undefined,
+            detail: check.detail,
+            checkId: check.status !== 'ok' ? check.id : undefined
+        }));
+        items.push({ label: '$(markdown) Export Report as Markdown', exportReport: true });
+
+        const problems = report.checks.filter(check => check.status !== 'ok').length;
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: problems === 0 ? 'All prerequisites are in place' : `${problems} problem(s) found, select one to fix it`,
+            matchOnDetail: true
+        });
+        if (picked?.exportReport) {
+            await this.exportMarkdown();
+        } else if (picked?.checkId) {
+            await this.runFix(picked.checkId);
+        }
+    }
+
+    public async exportMarkdown(): Promise<void> {
+        const report = this.lastReport ?? await this.run();
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatReport(report) });
+        await vscode.window.showTextDocument(document);
+    }
+
+    private async checkExecutable(name: string, label: string, missingStatus: CheckStatus, fix: DiagnosticFix): Promise<DiagnosticCheck> {
+        const executable = findExecutable(name);
+        if (!executable) {
+            return { id: name, label, status: missingStatus, detail: `\`${name}\` was not found on PATH`, fix };
+        }
+
+        try {
+            const result = await runProcess(name, ['--version'], { timeoutMs: 10000 });
+            const version = (result.stdout || result.stderr).trim().split(/\r?\n/)[0];
+            if (result.exitCode !== 0) {
+                return { id: name, label, status: 'warning', detail: `\`${name} --version\` exited with code ${result.exitCode} (${executable})`, fix };
+            }
+            return { id: name, label, status: 'ok', detail: `${version} (${executable})` };
+        } catch (error) {
+            return { id: name, label, status: 'warning', detail: `${error instanceof Error ? error.message : error} (${executable})`, fix };
+        }
+    }
+
+    private async checkAgents(): Promise<DiagnosticCheck[]> {
+        const checks = await Promise.all(getAgents().map(async adapter => {
+            const detected = await adapter.detect().catch(() => false);
+            const check: DiagnosticCheck = {
+                id: `agent-${adapter.id}`,
+                label: adapter.displayName,
+                status: detected ? 'ok' : 'warning',
+                detail: detected ? 'Installed' : 'Not installed',
+                fix: { title: `Install ${adapter.displayName}`, run: () => openUrl(adapter.installUrl) }
+            };
+            return check;
+        }));
+
+        // One agent is enough, but without any the setup has nothing to configure
+        if (checks.every(check => check.status !== 'ok')) {
+            checks.forEach(check => {
+                check.status = 'error';
+                check.detail = 'Not installed; at least one coding agent is needed';
+            });
+        }
+        return checks;
+    }
+
+    private async checkPort(folder: vscode.WorkspaceFolder | undefined): Promise<DiagnosticCheck> {
+        if (folder && isRemoteEndpoint(folder)) {
+            return this.checkRemoteServer(folder);
+        }
+        const port = getMcpPort(folder);
+        const check: DiagnosticCheck = { id: `port-${folder?.uri.toString() ?? 'default'}`, label: `Port ${port}`, status: 'ok', detail: 'Free', folder };
+
+        // An invalid bluetext.mcpUrl is a finding of its own, not a reason for the report to fail
+        let host: string;
+        try {
+            host = getMcpEndpoint(folder).host;
+        } catch (error) {
+            return {
+                id: `server-${folder?.uri.toString() ?? 'default'}`,
+                label: 'MCP server',
+                status: 'error',
+                detail: error instanceof Error ? error.message : String(error),
+                folder,
+                fix: {
+                    title: 'Change URL',
+                    run: () => vscode.commands.executeCommand('workbench.action.openSettings', 'bluetext.mcpUrl')
+                }
+            };
+        }
+
+        if (folder && McpServerManager.forFolder(folder).getState() !== 'stopped') {
+            check.detail = 'In use by the Bluetext MCP server';
+        } else if (await McpServerManager.isPortOpen(port, host)) {
+            check.status = 'warning';
+            check.detail = 'Already in use by another process; Start MCP Server will connect to it instead of starting Polytope';
+            check.fix = {
+                title: 'Change Port',
+                run: () => vscode.commands.executeCommand('workbench.action.openSettings', 'bluetext.mcpPort')
+            };
+        }
+        return check;
+    }
+
+    private async checkRemoteServer(folder: vscode.WorkspaceFolder): Promise<DiagnosticCheck> {
+        const url = getMcpUrl(folder);
+        const check: DiagnosticCheck = { id: `server-${folder.uri.toString()}`, label: 'MCP server', status: 'ok', detail: `Reachable at ${url}`, folder };
+        if (!await McpServerManager.isEndpointOpen(folder)) {
+            check.status = 'error';
+            check.detail = `${url} cannot be reached`;
+            check.fix = {
+                title: 'Change URL',
+                run: () => vscode.commands.executeCommand('workbench.action.openSettings', 'bluetext.mcpUrl')
+            };
+        }
+        return check;
+    }
+
+    private checkWritable(folder: vscode.WorkspaceFolder): DiagnosticCheck {
+        const check: DiagnosticCheck = { id: `writable-${folder.uri.toString()}`, label: 'Workspace write access', status: 'ok', detail: folder.uri.fsPath, folder };
+        const probePath = path.join(folder.uri.fsPath, `.bluetext-write-test-${process.pid}`);
+        try {
+            fs.writeFileSync(probePath, '');
+            fs.unlinkSync(probePath);
+        } catch (error) {
+            check.status = 'error';
+            check.detail = `Cannot write to ${folder.uri.fsPath}: ${error instanceof Error ? error.message : error}`;
+            check.fix = {
+                title: 'Open Another Folder',
+                run: () => vscode.commands.executeCommand('workbench.action.files.openFolder')
+            };
+        }
+        return check;
+    }
+
+    private setStepStatus(folders: readonly vscode.WorkspaceFolder[], status: (folder: vscode.WorkspaceFolder | undefined) => 'doing' | 'done' | 'error'): void {
+        const panel = WizardPanel.getInstance();
+        if (folders.length === 0) {
+            panel.updateStepStatus('prerequisites', status(undefined));
+        }
+        folders.forEach(folder => panel.updateStepStatus('prerequisites', status(folder), folder));
+    }
+
+    private sendToWizard(): void {
+        WizardPanel.getInstance().sendMessage({
+            command: 'diagnostics',
+            checks: (this.lastReport?.checks ?? [])
+                .filter(check => check.status !== 'ok')
+                .map(check => ({
+                    id: check.id,
+                    label: describeCheck(check),
+                    status: check.status,
+                    detail: check.detail,
+                    fixTitle: check.fix?.title
+                }))
+        });
+    }
+}
+
+function describeCheck(check: DiagnosticCheck): string {
+    return check.folder && getWorkspaceFolders().length > 1 ? `${check.label} (${check.folder.name})` : check.label;
+}
+
+function openUrl(url: string): Thenable<boolean> {
+    return vscode.env.openExternal(vscode.Uri.parse(url));
+}
+
+function formatReport(report: DiagnosticReport): string {
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const lines = [
+        '# Bluetext Diagnostics',
+        '',
+        `- Generated: ${report.timestamp.toLocaleString()}`,
+        `- ${vscode.env.appName} ${vscode.version} on ${process.platform} (${process.arch})`,
+        '',
+        '| Check | Status | Details |',
+        '| --- | --- | --- |',
+        ...report.checks.map(check => `| ${escape(describeCheck(check))} | ${STATUS_ICONS[check.status]} ${check.status} | ${escape(check.detail)} |`)
+    ];
+
+    const problems = report.checks.filter(check => check.status !== 'ok' && check.fix);
+    if (problems.length > 0) {
+        lines.push('', '## Suggested fixes', '');
+        problems.forEach(check => lines.push(`- **${describeCheck(check)}**: ${check.fix!.title}`));
+    }
+    return lines.join('\n') + '\n';
+}
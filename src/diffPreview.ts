@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PREVIEW_SCHEME = 'bluetext-preview';
+
+/**
+ * Serves proposed file contents to the diff editor without touching disk.
+ */
+class PreviewContentProvider implements vscode.TextDocumentContentProvider {
+    public readonly contents = new Map<string, string>();
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+}
+
+const provider = new PreviewContentProvider();
+let nextPreviewId = 1;
+
+export function registerDiffPreview(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, provider));
+}
+
+/**
+ * Shows the current file next to the proposed content and asks whether to
+ * apply it. The diff editor is closed again once the user has answered.
+ */
+export async function confirmWithDiff(filePath: string, proposed: string): Promise<boolean> {
+    const id = nextPreviewId++;
+    const fileName = path.basename(filePath);
+    const original = fs.existsSync(filePath)
+        ? vscode.Uri.file(filePath)
+        : vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: filePath, query: `empty-${id}` });
+    const modified = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: filePath, query: `proposed-${id}` });
+    provider.contents.set(modified.toString(), proposed);
+
+    try {
+        await vscode.commands.executeCommand('vscode.diff', original, modified, `${fileName} ↔ Bluetext changes`, { preview: true });
+        const choice = await vscode.window.showInformationMessage(`Apply the Bluetext changes to ${fileName}?`, 'Apply', 'Cancel');
+        return choice === 'Apply';
+    } finally {
+        await closeDiff(modified);
+        provider.contents.delete(modified.toString());
+    }
+}
+
+async function closeDiff(modified: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === modified.toString());
+    if (tabs.length > 0) {
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
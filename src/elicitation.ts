@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { JsonSchema, validateSchema } from './jsonSchema';
+
+type ElicitedValue = string | number | boolean;
+
+/** The answer to an `elicitation/create` request */
+export interface ElicitResult {
+    action: 'accept' | 'decline' | 'cancel';
+    content?: Record<string, ElicitedValue>;
+}
+
+// The string formats an elicitation schema may use
+const FORMAT_PATTERNS = new Map<string, RegExp>([
+    ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+    ['uri', /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/],
+    ['date', /^\d{4}-\d{2}-\d{2}$/],
+    ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/]
+]);
+
+/**
+ * Asks the user for what the server requests with `elicitation/create`: a
+ * modal with the server's message, then one input or pick per field of its
+ * flat schema. Dismissing anything along the way cancels the request.
+ */
+export async function askForElicitation(serverName: string, params: any): Promise<ElicitResult> {
+    const schema: JsonSchema = params?.requestedSchema ?? {};
+    const properties = schema.properties ?? {};
+    const required = schema.required ?? [];
+    const names = Object.keys(properties);
+
+    const respond = names.length > 0 ? 'Respond' : 'Accept';
+    const choice = await vscode.window.showInformationMessage(
+        `${serverName} is asking for input`,
+        { modal: true, detail: params?.message },
+        respond,
+        'Decline'
+    );
+    if (choice === 'Decline') {
+        return { action: 'decline' };
+    }
+    if (choice !== respond) {
+        return { action: 'cancel' };
+    }
+
+    const content: Record<string, ElicitedValue> = {};
+    for (const [index, name] of names.entries()) {
+        const field = properties[name];
+        const answer = await askForField(field, {
+            title: `${field.title ?? name} (${index + 1}/${names.length})`,
+            prompt: field.description ?? params?.message,
+            required: required.includes(name)
+        });
+        if (!answer) {
+            return { action: 'cancel' };
+        }
+        if (answer.value !== undefined) {
+            content[name] = answer.value;
+        }
+    }
+    return { action: 'accept', content };
+}
+
+interface FieldOptions {
+    title: string;
+    prompt?: string;
+    required: boolean;
+}
+
+/**
+ * Resolves to undefined when the user dismisses the input, and to an empty
+ * answer when they skip an optional field.
+ */
+async function askForField(field: JsonSchema, options: FieldOptions): Promise<{ value?: ElicitedValue } | undefined> {
+    if (field.type === 'boolean' || Array.isArray(field.enum)) {
+        return pickValue(field, options);
+    }
+
+    const numeric = field.type === 'number' || field.type === 'integer';
+    const parse = (text: string): ElicitedValue => numeric && text.trim() !== '' ? Number(text) : text;
+    const text = await vscode.window.showInputBox({
+        title: options.title,
+        prompt: options.prompt,
+        value: field.default !== undefined ? String(field.default) : undefined,
+        placeHolder: options.required ? undefined : 'Leave empty to skip',
+        ignoreFocusOut: true,
+        validateInput: input => {
+            if (input === '') {
+                return options.required ? 'A value is required' : undefined;
+            }
+            const value = parse(input);
+            if (typeof value === 'number' && Number.isNaN(value)) {
+                return 'Must be a number';
+            }
+            const pattern = typeof field.format === 'string' ? FORMAT_PATTERNS.get(field.format) : undefined;
+            if (pattern && !pattern.test(input)) {
+                return `Must be a valid ${field.format}`;
+            }
+            return validateSchema(value, field)[0]?.message;
+        }
+    });
+    if (text === undefined) {
+        return undefined;
+    }
+    return text === '' ? {} : { value: parse(text) };
+}
+
+async function pickValue(field: JsonSchema, options: FieldOptions): Promise<{ value?: ElicitedValue } | undefined> {
+    const labels = Array.isArray(field.enumNames) ? field.enumNames : [];
+    const items: (vscode.QuickPickItem & { value?: ElicitedValue })[] = field.type === 'boolean'
+        ? [{ label: 'Yes', value: true }, { label: 'No', value: false }]
+        : (field.enum ?? []).map((option, index) => ({ label: String(labels[index] ?? option), value: option as ElicitedValue }));
+    // The default goes first so Enter picks it
+    items.sort((a, b) => Number(b.value === field.default) - Number(a.value === field.default));
+    if (!options.required) {
+        items.push({ label: 'Skip', description: 'Leave this field out' });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: options.title,
+        placeHolder: options.prompt,
+        ignoreFocusOut: true
+    });
+    return picked && { value: picked.value };
+}
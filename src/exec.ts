@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface ProcessResult {
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+export interface RunOptions {
+    cwd?: string;
+    timeoutMs?: number;
+}
+
+/**
+ * Looks up an executable on PATH the way a shell would, including the
+ * PATHEXT extensions on Windows. Returns the full path or undefined.
+ */
+export function findExecutable(name: string): string | undefined {
+    const directories = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+    const extensions = process.platform === 'win32'
+        ? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';')]
+        : [''];
+
+    for (const directory of directories) {
+        for (const extension of extensions) {
+            const candidate = path.join(directory, name + extension);
+            try {
+                if (fs.statSync(candidate).isFile()) {
+                    fs.accessSync(candidate, fs.constants.X_OK);
+                    return candidate;
+                }
+            } catch {
+                // Not here, keep looking
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Runs a command to completion and captures its output. Rejects if the
+ * command can't be started or doesn't finish in time; a non-zero exit code is
+ * returned rather than thrown so callers can decide what it means.
+ */
+export function runProcess(command: string, args: string[], options: RunOptions = {}): Promise<ProcessResult> {
+    // Only batch files, like npm's shims on Windows, need cmd.exe; anything else starts directly
+    const executable = process.platform === 'win32' ? findExecutable(command) : undefined;
+    const useShell = executable !== undefined && /\.(cmd|bat)$/i.test(executable);
+    return new Promise((resolve, reject) => {
+        const child = spawn(
+            useShell ? quoteForCmd(executable!) : executable ?? command,
+            useShell ? args.map(quoteForCmd) : args,
+            { cwd: options.cwd, env: process.env, shell: useShell }
+        );
+
+        let stdout = '';
+        let stderr = '';
+        child.stdout?.setEncoding('utf8');
+        child.stderr?.setEncoding('utf8');
+        child.stdout?.on('data', (chunk: string) => stdout += chunk);
+        child.stderr?.on('data', (chunk: string) => stderr += chunk);
+
+        const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const timer = setTimeout(() => {
+            child.kill();
+            reject(new Error(`${command} ${args.join(' ')} did not finish within ${timeoutMs / 1000}s`));
+        }, timeoutMs);
+
+        child.on('error', error => {
+            clearTimeout(timer);
+            reject((error as NodeJS.ErrnoException).code === 'ENOENT' ? new Error(`${command} was not found on PATH`) : error);
+        });
+        child.on('close', exitCode => {
+            clearTimeout(timer);
+            resolve({ exitCode, stdout, stderr });
+        });
+    });
+}
+
+// cmd.exe splits arguments on spaces and reads & | < > ^ as operators unless they are quoted
+function quoteForCmd(arg: string): string {
+    return arg === '' || /[\s"&|<>^()]/.test(arg) ? `"${arg.replace(/"/g, '""')}"` : arg;
+}
@@ -2,10 +2,81 @@ import * as vscode from 'vscode';
 import { WizardPanel } from './wizardPanel';
 import * as commands from './commands';
 import { McpService } from './mcpService';
+import { McpServerManager } from './serverManager';
+import { findWorkspaceFolder, getWorkspaceFolders, resolveTargetFolders } from './workspaceFolders';
+import { registerPolytopeDiagnostics } from './polytopeYml';
+import { ConfigDriftChecker } from './configDrift';
+import { registerDiffPreview } from './diffPreview';
+import { FileWriter } from './fileWriter';
+import { DiagnosticsService } from './diagnostics';
+import { registerMcpResourceProvider } from './mcpResources';
+import { McpTreeNode, registerMcpTreeView } from './mcpTreeView';
+import { getMcpLogChannel } from './mcpLog';
+import { refreshStepStatuses } from './stepDetection';
+import { describeQuickStartSteps, runQuickStart, runQuickStartStep } from './quickStart';
+import { WizardMessage } from './webviewMessages';
+import { affectsMcpEndpoint } from './settings';
+import { McpAuth } from './mcpAuth';
+import { initializeGlobalStorage } from './agents/globalStorage';
+
+function getServerFolder(node: McpTreeNode | undefined): vscode.WorkspaceFolder | undefined {
+    return node?.kind === 'server' ? node.folder : undefined;
+}
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Bluetext Setup Assistant is now active');
 
+    WizardPanel.getInstance().setStorage(context.workspaceState);
+    registerPolytopeDiagnostics(context);
+    registerDiffPreview(context);
+    FileWriter.getInstance().initialize(context);
+    initializeGlobalStorage(context);
+    McpAuth.getInstance().initialize(context);
+    McpService.getInstance().setArgumentStorage(context.workspaceState);
+    registerMcpResourceProvider(context, uri => McpService.getInstance().readResource(uri));
+    registerMcpTreeView(context);
+
+    // Health monitoring follows the server of the folder the client targets
+    context.subscriptions.push(
+        McpServerManager.onDidChangeState(({ folder, state }) => {
+            if (McpService.getInstance().getTargetFolder()?.uri.toString() !== folder.uri.toString()) {
+                return;
+            }
+            if (state === 'running') {
+                McpService.getInstance().startHealthMonitoring();
+            } else if (state === 'stopping' || state === 'stopped') {
+                McpService.getInstance().stopHealthMonitoring();
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(event => {
+            WizardPanel.getInstance().sendWorkspaceFolders();
+            ConfigDriftChecker.getInstance().check();
+            McpService.getInstance().notifyRootsChanged();
+            commands.autoStartMCP(event.added);
+        }),
+        // The server only sends log messages at the level the channel shows
+        getMcpLogChannel(),
+        getMcpLogChannel().onDidChangeLogLevel(() => McpService.getInstance().sendLogLevel()),
+        // A new token needs a new session, and agents may hold the old one
+        McpAuth.getInstance().onDidChangeCredentials(() => {
+            McpService.getInstance().resetConnection();
+            ConfigDriftChecker.getInstance().check();
+        }),
+        // Agent configs keep the old URL when the endpoint changes, so look for drift
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (affectsMcpEndpoint(event)) {
+                McpService.getInstance().resetConnection();
+                WizardPanel.getInstance().sendWorkspaceFolders();
+                ConfigDriftChecker.getInstance().checkAndNotify();
+            }
+            if (event.affectsConfiguration('bluetext.preferredAgent')) {
+                WizardPanel.getInstance().sendAgents();
+            }
+        })
+    );
+    ConfigDriftChecker.getInstance().checkAndNotify();
+    commands.autoStartMCP(getWorkspaceFolders());
+
     // Register command to open wizard from toolbar button
     context.subscriptions.push(
         vscode.commands.registerCommand('bluetext.openFromActivityBar', () => {
@@ -16,84 +87,178 @@ export function activate(context: vscode.ExtensionContext) {
     // Register setup wizard command
     context.subscriptions.push(
         vscode.commands.registerCommand('bluetext.setupWizard', () => {
-            const panel = WizardPanel.getInstance();
-            const webview = panel.createOrShow(context.extensionPath);
-            
-            if (webview) {
-                panel.logToTerminal('Bluetext Setup Wizard initialized', 'info');
-                panel.logToTerminal('Click any setup button to begin', 'info');
-                
-                // Handle messages from webview
-                webview.onDidReceiveMessage(
-                    async message => {
-                        switch (message.command) {
-                            case 'initGit':
-                                await commands.initGit();
-                                break;
-                            case 'createPolytopeYml':
-                                await commands.createPolytopeYml();
-                                break;
-                            case 'configureCline':
-                                await commands.configureCline();
-                                break;
-                            case 'configureClaudeCode':
-                                await commands.configureClaudeCode();
-                                break;
-                            case 'configureCopilot':
-                                await commands.configureCopilot();
-                                break;
-                            case 'startMCP':
-                                panel.updateStepStatus(4, 'doing');
-                                await commands.startMCP();
-                                await new Promise(resolve => setTimeout(resolve, 1000));
-                                panel.updateStepStatus(4, 'done');
-                                // Start health monitoring after server starts
-                                // Wait longer (7 seconds) to give server time to fully initialize
-                                panel.logToTerminal('Waiting for MCP server to fully initialize...', 'info');
-                                await new Promise(resolve => setTimeout(resolve, 7000));
-                                McpService.getInstance().startHealthMonitoring();
-                                break;
-                            case 'quickStart':
-                                await commands.runQuickStart(message.agentChoice);
-                                // Wait for MCP server to initialize, then fetch tools
-                                await new Promise(resolve => setTimeout(resolve, 3000));
-                                try {
-                                    await McpService.getInstance().fetchTools();
-                                    panel.logToTerminal('✅ Tools loaded successfully!', 'success');
-                                } catch (error) {
-                                    panel.logToTerminal('⚠️  Could not fetch tools yet. Click "Refresh Tools" button once server is ready.', 'info');
-                                }
-                                break;
-                            case 'fetchMcpTools':
-                                await McpService.getInstance().fetchTools();
-                                break;
-                            case 'runMcpTool':
-                                await McpService.getInstance().executeTool(
-                                    message.toolName, 
-                                    message.toolSchema,
-                                    message.parameters
-                                );
-                                break;
-                        }
-                    },
-                    undefined,
-                    context.subscriptions
-                );
+            if (WizardPanel.getInstance().createOrShow(context.extensionPath)) {
+                initializeWizard();
             }
-        })
+        }),
+        // Brings the wizard back after a reload if it was open
+        vscode.window.registerWebviewPanelSerializer('bluetextSetup', {
+            deserializeWebviewPanel: async (webviewPanel: vscode.WebviewPanel) => {
+                WizardPanel.getInstance().revive(webviewPanel, context.extensionPath);
+                initializeWizard();
+            }
+        }),
+        // Whichever panel is open, its messages go through this one handler
+        WizardPanel.getInstance().onDidReceiveMessage(handleWizardMessage)
     );
 
     // Register individual command shortcuts
     context.subscriptions.push(
+        vscode.commands.registerCommand('bluetext.runDiagnostics', () => DiagnosticsService.getInstance().showReport()),
         vscode.commands.registerCommand('bluetext.createPolytopeYml', () => commands.createPolytopeYml()),
-        vscode.commands.registerCommand('bluetext.configureCline', () => commands.configureCline()),
-        vscode.commands.registerCommand('bluetext.configureClaudeCode', () => commands.configureClaudeCode()),
+        vscode.commands.registerCommand('bluetext.selectRepoRef', () => commands.selectRepoRef()),
+        vscode.commands.registerCommand('bluetext.configureAgent', () => commands.configureAgent()),
+        vscode.commands.registerCommand('bluetext.removeAgentConfig', () => commands.removeAgentConfig()),
+        vscode.commands.registerCommand('bluetext.undoLastSetup', async () => {
+            await commands.undoLastSetup();
+            ConfigDriftChecker.getInstance().check();
+        }),
+        vscode.commands.registerCommand('bluetext.repairAgentConfigs', () => ConfigDriftChecker.getInstance().repairAll()),
+        vscode.commands.registerCommand('bluetext.configureCline', () => commands.configureAgent('cline')),
+        vscode.commands.registerCommand('bluetext.configureClaudeCode', () => commands.configureAgent('claude-code')),
         vscode.commands.registerCommand('bluetext.initGit', () => commands.initGit()),
-        vscode.commands.registerCommand('bluetext.startMCP', () => commands.startMCP())
+        // From the Bluetext view these act on the folder the server item shows
+        vscode.commands.registerCommand('bluetext.startMCP', (node?: McpTreeNode) => commands.startMCP(getServerFolder(node))),
+        vscode.commands.registerCommand('bluetext.stopMCP', (node?: McpTreeNode) => commands.stopMCP(getServerFolder(node))),
+        vscode.commands.registerCommand('bluetext.restartMCP', (node?: McpTreeNode) => commands.restartMCP(getServerFolder(node))),
+        vscode.commands.registerCommand('bluetext.showServerOutput', () => commands.showServerOutput()),
+        vscode.commands.registerCommand('bluetext.setMcpToken', () => commands.setMcpToken()),
+        vscode.commands.registerCommand('bluetext.clearMcpToken', () => commands.clearMcpToken()),
+        vscode.commands.registerCommand('bluetext.clearTerminal', () => WizardPanel.getInstance().clearConsole())
     );
 }
 
+/**
+ * Sends the wizard its initial state. Used for new panels and for panels
+ * restored after a reload.
+ */
+function initializeWizard(): void {
+    const panel = WizardPanel.getInstance();
+    panel.sendConsoleHistory();
+    panel.sendMessage({ command: 'quickStartSteps', steps: describeQuickStartSteps() });
+    panel.sendWorkspaceFolders();
+    panel.sendStepStatuses();
+    refreshStepStatuses();
+    panel.sendRepoRef();
+    panel.sendAgents();
+    ConfigDriftChecker.getInstance().check();
+    DiagnosticsService.getInstance().run();
+    panel.logToTerminal('Bluetext Setup Wizard initialized', 'info');
+    panel.logToTerminal('Click any setup button to begin', 'info');
+}
+
+// A ref typed into the wizard is saved just before the create click
+// arrives, so file-writing handlers wait for the save to land
+let repoRefUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * Messages arrive through an event, where nothing would see a rejection, so
+ * failures are reported to the wizard console and the log here.
+ */
+async function handleWizardMessage(message: WizardMessage): Promise<void> {
+    try {
+        await dispatchWizardMessage(message);
+    } catch (error) {
+        WizardPanel.getInstance().logToTerminal(`❌ ${message.command} failed: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+}
+
+async function dispatchWizardMessage(message: WizardMessage): Promise<void> {
+    const panel = WizardPanel.getInstance();
+    switch (message.command) {
+        case 'fixDiagnostic':
+            await DiagnosticsService.getInstance().runFix(message.checkId);
+            break;
+        case 'exportDiagnostics':
+            await DiagnosticsService.getInstance().exportMarkdown();
+            break;
+        case 'selectFolder': {
+            const folder = findWorkspaceFolder(message.folder);
+            if (folder) {
+                McpService.getInstance().setTargetFolder(folder);
+            }
+            break;
+        }
+        case 'setRepoRef':
+            repoRefUpdate = commands.setRepoRef(message.repoRef.trim());
+            await repoRefUpdate;
+            break;
+        case 'repairDrift':
+            await ConfigDriftChecker.getInstance().repairAll();
+            break;
+        case 'runQuickStartStep': {
+            await repoRefUpdate;
+            const folders = await resolveTargetFolders(message.folder ?? undefined, true);
+            if (folders) {
+                await runQuickStartStep(message.stepId, message.agentChoice, folders);
+                await ConfigDriftChecker.getInstance().check();
+            }
+            break;
+        }
+        case 'quickStart': {
+            await repoRefUpdate;
+            const folders = await resolveTargetFolders(message.folder ?? undefined, true);
+            if (!folders) {
+                break;
+            }
+            await runQuickStart(message.agentChoice, folders, { dryRun: message.dryRun, resume: message.resume, skip: message.skip });
+            if (message.dryRun) {
+                break;
+            }
+            // Steps that were done already don't start health monitoring themselves
+            await refreshStepStatuses();
+            try {
+                await McpService.getInstance().fetchTools();
+                panel.logToTerminal('✅ Tools loaded successfully!', 'success');
+            } catch (error) {
+                panel.logToTerminal('⚠️  Could not fetch tools yet. Click "Refresh Tools" button once server is ready.', 'info');
+            }
+            break;
+        }
+        // Both report their failures to the wizard and only throw for other callers
+        case 'fetchMcpTools':
+            await McpService.getInstance().fetchTools().catch(() => undefined);
+            break;
+        case 'runMcpTool':
+            await McpService.getInstance().executeTool(
+                message.toolName, 
+                message.toolSchema,
+                message.parameters
+            ).catch(() => undefined);
+            break;
+        case 'cancelToolRun':
+            McpService.getInstance().cancelToolRun(message.runId);
+            break;
+        case 'openToolContent':
+            await McpService.getInstance().openToolContent(message.runId, message.index);
+            break;
+        case 'fetchMcpResources':
+            await McpService.getInstance().fetchResources();
+            break;
+        case 'openMcpResource':
+            await McpService.getInstance().openResource(message.uri, message.templateValues);
+            break;
+        case 'fetchMcpPrompts':
+            await McpService.getInstance().fetchPrompts();
+            break;
+        case 'getMcpPrompt':
+            await McpService.getInstance().getPrompt(message.name, message.arguments ?? {});
+            break;
+        case 'clearConsole':
+            panel.clearConsole();
+            break;
+        case 'copyConsole':
+            await vscode.env.clipboard.writeText(message.text);
+            vscode.window.setStatusBarMessage('Console copied to the clipboard', 3000);
+            break;
+        case 'exportConsole':
+            await panel.exportConsole(message.text);
+            break;
+    }
+}
+
 export function deactivate() {
     // Stop health monitoring when extension deactivates
     McpService.getInstance().stopHealthMonitoring();
+    McpServerManager.disposeAll();
 }
@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { WizardPanel } from './wizardPanel';
+import { confirmWithDiff } from './diffPreview';
+import { runProcess } from './exec';
+
+const CHANGE_LOG_KEY = 'bluetext.changeLog';
+const MAX_LOGGED_TRANSACTIONS = 20;
+
+export type WriteResult = 'written' | 'unchanged' | 'cancelled';
+
+export interface WriteOptions {
+    /** Shown in the change log and the undo prompt */
+    description: string;
+    /** Preview the change and ask before writing; defaults to true outside a transaction */
+    interactive?: boolean;
+}
+
+/** A command that reverses a change made by running another command */
+export interface UndoCommand {
+    command: string;
+    args: string[];
+    cwd?: string;
+}
+
+export interface ChangeRecord {
+    transactionId: string;
+    transactionLabel: string;
+    timestamp: string;
+    /** The file written; undefined for a change made by a command */
+    filePath?: string;
+    description: string;
+    /** Copy of the file before the change; undefined when the file was created */
+    backupPath?: string;
+    /** Hash of what was written, to notice edits made after the change */
+    writtenHash?: string;
+    /** Run in order to undo a change made by a command */
+    undoCommands?: UndoCommand[];
+}
+
+interface Transaction {
+    id: string;
+    label: string;
+}
+
+/**
+ * Writes every file the wizard changes. Each write backs up the previous
+ * content, can preview the change in a diff editor and is recorded in a change
+ * log, so a whole setup run can be undone in one step.
+ */
+export class FileWriter {
+    private static instance: FileWriter | undefined;
+    private context: vscode.ExtensionContext | undefined;
+    private transaction: Transaction | undefined;
+
+    private constructor() {}
+
+    public static getInstance(): FileWriter {
+        if (!FileWriter.instance) {
+            FileWriter.instance = new FileWriter();
+        }
+        return FileWriter.instance;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.context = context;
+    }
+
+    /**
+     * Groups the writes made by `run` so they are undone together. Writes in a
+     * transaction don't ask for confirmation unless they opt in. Nested calls
+     * join the outer transaction.
+     */
+    public async runTransaction<T>(label: string, run: () => Promise<T>): Promise<T> {
+        if (this.transaction) {
+            return run();
+        }
+        this.transaction = { id: `${Date.now()}`, label };
+        try {
+            return await run();
+        } finally {
+            this.transaction = undefined;
+        }
+    }
+
+    public async write(filePath: string, content: string, options: WriteOptions): Promise<WriteResult> {
+        const exists = fs.existsSync(filePath);
+        const previous = exists ? fs.readFileSync(filePath, 'utf8') : undefined;
+        if (previous === content) {
+            return 'unchanged';
+        }
+
+        // A new file has nothing to compare against, so only changes are previewed
+        const interactive = options.interactive ?? this.transaction === undefined;
+        if (interactive && exists && !await confirmWithDiff(filePath, content)) {
+            return 'cancelled';
+        }
+
+        const timestamp = new Date();
+        const backupPath = exists ? this.backup(filePath, timestamp) : undefined;
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.bluetext-${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, content, 'utf8');
+        fs.renameSync(tempPath, filePath);
+
+        const transaction = this.transaction ?? { id: `${timestamp.getTime()}`, label: options.description };
+        await this.appendRecord({
+            transactionId: transaction.id,
+            transactionLabel: transaction.label,
+            timestamp: timestamp.toISOString(),
+            filePath,
+            description: options.description,
+            backupPath,
+            writtenHash: hash(content)
+        });
+        WizardPanel.getInstance().logToTerminal(
+            backupPath ? `${options.description} (backup: ${backupPath})` : options.description,
+            'info'
+        );
+        return 'written';
+    }
+
+    /**
+     * Records a change another tool made, like a `claude mcp add`, so it is
+     * undone with the rest of the transaction by running `undoCommands`.
+     */
+    public async recordCommand(description: string, undoCommands: UndoCommand[]): Promise<void> {
+        const timestamp = new Date();
+        const transaction = this.transaction ?? { id: `${timestamp.getTime()}`, label: description };
+        await this.appendRecord({
+            transactionId: transaction.id,
+            transactionLabel: transaction.label,
+            timestamp: timestamp.toISOString(),
+            description,
+            undoCommands
+        });
+    }
+
+    public getChangeLog(): ChangeRecord[] {
+        return this.getContext().globalState.get<ChangeRecord[]>(CHANGE_LOG_KEY, []);
+    }
+
+    /**
+     * Restores every file touched by the most recent transaction: files that
+     * existed are put back from their backups, files that were created are
+     * deleted, and changes made by commands are reversed by their undo
+     * commands. Returns false if there was nothing to undo or the user declined.
+     */
+    public async undoLastTransaction(): Promise<boolean> {
+        const panel = WizardPanel.getInstance();
+        const log = this.getChangeLog();
+        if (log.length === 0) {
+            vscode.window.showInformationMessage('There is no Bluetext setup to undo');
+            return false;
+        }
+
+        const transactionId = log[log.length - 1].transactionId;
+        const records = log.filter(record => record.transactionId === transactionId);
+        const files = [...new Set(records.flatMap(record => record.filePath ? [record.filePath] : []))];
+        const commands = records.filter(record => record.undoCommands);
+        const when = new Date(records[0].timestamp).toLocaleString();
+
+        const modified = files.filter(filePath => {
+            const last = [...records].reverse().find(record => record.filePath === filePath)!;
+            return !fs.existsSync(filePath) || hash(fs.readFileSync(filePath, 'utf8')) !== last.writtenHash;
+        });
+        const detail = [
+            ...files.map(filePath => `• ${filePath}`),
+            ...commands.map(record => `• ${record.description}`),
+            ...(modified.length > 0 ? ['', `${modified.length} file(s) changed since then; those changes will be lost.`] : [])
+        ].join('\n');
+        const choice = await vscode.window.showWarningMessage(
+            `Undo "${records[0].transactionLabel}" from ${when}?`,
+            { modal: true, detail },
+            'Undo'
+        );
+        if (choice !== 'Undo') {
+            return false;
+        }
+
+        panel.logToTerminal(`Undoing "${records[0].transactionLabel}"...`, 'command');
+        // Walk backwards so a file written twice ends up at its first backup
+        for (const record of [...records].reverse()) {
+            try {
+                if (record.undoCommands) {
+                    await this.runUndoCommands(record.undoCommands);
+                    panel.logToTerminal(`Undid: ${record.description}`, 'info');
+                } else if (!record.filePath) {
+                    continue;
+                } else if (record.backupPath) {
+                    fs.copyFileSync(record.backupPath, record.filePath);
+                    panel.logToTerminal(`Restored ${record.filePath}`, 'info');
+                } else if (fs.existsSync(record.filePath)) {
+                    fs.unlinkSync(record.filePath);
+                    panel.logToTerminal(`Removed ${record.filePath}`, 'info');
+                }
+            } catch (error) {
+                const errorMsg = `Failed to undo "${record.description}": ${error instanceof Error ? error.message : error}`;
+                vscode.window.showErrorMessage(errorMsg);
+                panel.logToTerminal(errorMsg, 'error');
+                return false;
+            }
+        }
+
+        await this.saveChangeLog(log.filter(record => record.transactionId !== transactionId));
+        this.deleteBackups(records);
+        panel.logToTerminal(`Undid "${records[0].transactionLabel}"`, 'success');
+        return true;
+    }
+
+    private async runUndoCommands(undoCommands: UndoCommand[]): Promise<void> {
+        for (const { command, args, cwd } of undoCommands) {
+            const result = await runProcess(command, args, { cwd });
+            if (result.exitCode !== 0) {
+                const output = (result.stderr || result.stdout).trim();
+                throw new Error(`${command} ${args.slice(0, 2).join(' ')} exited with code ${result.exitCode}${output ? `: ${output}` : ''}`);
+            }
+        }
+    }
+
+    private backup(filePath: string, timestamp: Date): string {
+        const backupDir = path.join(this.getContext().globalStorageUri.fsPath, 'backups');
+        fs.mkdirSync(backupDir, { recursive: true });
+        const stamp = timestamp.toISOString().replace(/[:.]/g, '-');
+        const backupPath = path.join(backupDir, `${stamp}-${crypto.randomBytes(3).toString('hex')}-${path.basename(filePath)}`);
+        fs.copyFileSync(filePath, backupPath);
+        return backupPath;
+    }
+
+    private async appendRecord(record: ChangeRecord): Promise<void> {
+        const log = [...this.getChangeLog(), record];
+        const transactionIds = [...new Set(log.map(entry => entry.transactionId))];
+        const kept = new Set(transactionIds.slice(-MAX_LOGGED_TRANSACTIONS));
+        this.deleteBackups(log.filter(entry => !kept.has(entry.transactionId)));
+        await this.saveChangeLog(log.filter(entry => kept.has(entry.transactionId)));
+    }
+
+    private async saveChangeLog(log: ChangeRecord[]): Promise<void> {
+        await this.getContext().globalState.update(CHANGE_LOG_KEY, log);
+    }
+
+    private deleteBackups(records: ChangeRecord[]): void {
+        for (const record of records) {
+            if (record.backupPath) {
+                fs.rmSync(record.backupPath, { force: true });
+            }
+        }
+    }
+
+    private getContext(): vscode.ExtensionContext {
+        if (!this.context) {
+            throw new Error('FileWriter used before the extension was activated');
+        }
+        return this.context;
+    }
+}
+
+function hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import { WizardPanel } from './wizardPanel';
+import { describeMcpEndpoint } from './settings';
+
+export type HealthState = 'starting' | 'healthy' | 'degraded' | 'down';
+
+const CHECK_INTERVAL_MS = 5000;
+const FIRST_RETRY_MS = 1000;
+const MAX_RETRY_MS = 60000;
+// Failed checks in a row before the server counts as down
+const DOWN_AFTER_FAILURES = 3;
+// Answers slower than this mark the server as degraded
+const SLOW_RESPONSE_MS = 2000;
+const KEPT_LATENCIES = 20;
+
+const STATE_LABELS: Record<HealthState, string> = {
+    starting: 'Starting',
+    healthy: 'Healthy',
+    degraded: 'Degraded',
+    down: 'Down'
+};
+
+const STATE_ICONS: Record<HealthState, string> = {
+    starting: '$(loading~spin)',
+    healthy: '$(pass)',
+    degraded: '$(warning)',
+    down: '$(error)'
+};
+
+/**
+ * Watches the MCP server with a probe request. Failures are retried with
+ * exponential backoff instead of giving up, so a server that restarts is
+ * picked up again and the wizard's server step goes back to done. The state
+ * is shown in the status bar while monitoring.
+ */
+export class McpHealthMonitor {
+    private state: HealthState | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private failures = 0;
+    private latencies: number[] = [];
+    private retryDelayMs = 0;
+    // Bumped on start and stop so a check still in flight is ignored afterwards
+    private generation = 0;
+    private statusBarItem: vscode.StatusBarItem | undefined;
+    private readonly stateEmitter = new vscode.EventEmitter<HealthState | undefined>();
+    public readonly onDidChangeState = this.stateEmitter.event;
+
+    constructor(
+        private readonly probe: () => Promise<void>,
+        private readonly getFolder: () => vscode.WorkspaceFolder | undefined
+    ) {}
+
+    public getState(): HealthState | undefined {
+        return this.state;
+    }
+
+    public start(): void {
+        if (this.state) {
+            return; // Already monitoring
+        }
+        this.generation++;
+        this.failures = 0;
+        this.latencies = [];
+        WizardPanel.getInstance().logToTerminal('🔍 Starting MCP server health monitoring...', 'info');
+        this.setState('starting');
+        this.schedule(0);
+    }
+
+    public stop(): void {
+        if (!this.state) {
+            return;
+        }
+        this.generation++;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.setState(undefined);
+        WizardPanel.getInstance().logToTerminal('🛑 Stopped MCP server health monitoring', 'info');
+    }
+
+    private schedule(delayMs: number): void {
+        this.timer = setTimeout(() => this.check(), delayMs);
+    }
+
+    private async check(): Promise<void> {
+        const generation = this.generation;
+        const startedAt = Date.now();
+        let failed = false;
+        try {
+            await this.probe();
+        } catch {
+            failed = true;
+        }
+        if (generation !== this.generation) {
+            return;
+        }
+
+        if (failed) {
+            this.failures++;
+            this.retryDelayMs = Math.min(MAX_RETRY_MS, FIRST_RETRY_MS * 2 ** (this.failures - 1));
+            this.setState(
+                this.failures >= DOWN_AFTER_FAILURES ? 'down' : this.state === 'starting' ? 'starting' : 'degraded'
+            );
+            this.schedule(this.retryDelayMs);
+            return;
+        }
+
+        const latency = Date.now() - startedAt;
+        this.latencies = [...this.latencies, latency].slice(-KEPT_LATENCIES);
+        this.failures = 0;
+        this.setState(latency > SLOW_RESPONSE_MS ? 'degraded' : 'healthy');
+        this.schedule(CHECK_INTERVAL_MS);
+    }
+
+    private setState(state: HealthState | undefined): void {
+        const previous = this.state;
+        this.state = state;
+        this.updateStatusBar();
+        if (state === previous) {
+            return;
+        }
+
+        const panel = WizardPanel.getInstance();
+        const folder = this.getFolder();
+        if (state === 'down') {
+            panel.logToTerminal('⚠️  MCP server is not responding - reconnecting in the background', 'error');
+            panel.updateStepStatus('server', 'pending', folder);
+        } else if (state === 'degraded') {
+            panel.logToTerminal(this.failures > 0
+                ? '⚠️  MCP server missed a health check'
+                : `⚠️  MCP server is slow to respond (${this.latencies[this.latencies.length - 1]} ms)`, 'error');
+        } else if (state === 'healthy' && (previous === 'down' || previous === 'starting')) {
+            panel.logToTerminal(previous === 'down' ? '✓ MCP server is responding again' : '✓ MCP server is healthy', 'success');
+            panel.updateStepStatus('server', 'done', folder);
+        }
+        this.stateEmitter.fire(state);
+    }
+
+    private updateStatusBar(): void {
+        if (!this.state) {
+            this.statusBarItem?.hide();
+            return;
+        }
+        if (!this.statusBarItem) {
+            this.statusBarItem = vscode.window.createStatusBarItem('bluetext.mcpHealth', vscode.StatusBarAlignment.Left);
+            this.statusBarItem.name = 'Bluetext MCP Server';
+            this.statusBarItem.command = 'workbench.view.extension.bluetext';
+        }
+
+        const endpoint = describeMcpEndpoint(this.getFolder());
+        this.statusBarItem.text = `${STATE_ICONS[this.state]} MCP ${endpoint}`;
+        this.statusBarItem.backgroundColor = this.state === 'down'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : this.state === 'degraded'
+                ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                : undefined;
+
+        const lines = [`MCP server on ${endpoint}: ${STATE_LABELS[this.state]}`];
+        if (this.latencies.length > 0) {
+            const average = Math.round(this.latencies.reduce((sum, latency) => sum + latency, 0) / this.latencies.length);
+            lines.push(`Last response: ${this.latencies[this.latencies.length - 1]} ms (average ${average} ms)`);
+        }
+        if (this.failures > 0) {
+            lines.push(`${this.failures} failed check${this.failures !== 1 ? 's' : ''} in a row, next attempt after ${this.retryDelayMs / 1000}s`);
+        }
+        this.statusBarItem.tooltip = lines.join('\n');
+        this.statusBarItem.show();
+    }
+}
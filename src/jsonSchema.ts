@@ -0,0 +1,151 @@
+/**
+ * Minimal JSON Schema validator covering the subset used by MCP tool schemas
+ * and the config files this extension writes: type, enum, const, properties,
+ * required, additionalProperties, items, oneOf/anyOf and the common numeric
+ * and string constraints.
+ */
+
+export interface JsonSchema {
+    type?: string | string[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    oneOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    pattern?: string;
+    description?: string;
+    [keyword: string]: unknown;
+}
+
+export interface SchemaError {
+    /** Location of the offending value, as object keys and array indices */
+    path: (string | number)[];
+    message: string;
+    /** True when the error is about an object key rather than its value */
+    isKey?: boolean;
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema, path: (string | number)[] = []): SchemaError[] {
+    const errors: SchemaError[] = [];
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push({ path, message: `Expected ${types.join(' or ')} but got ${describeType(value)}` });
+            return errors;
+        }
+    }
+
+    if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+        errors.push({ path, message: `Must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+    }
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+        errors.push({ path, message: `Must be ${JSON.stringify(schema.const)}` });
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push({ path, message: `Must be at least ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push({ path, message: `Must be at most ${schema.maximum}` });
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push({ path, message: `Must be at least ${schema.minLength} characters` });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+            errors.push({ path, message: `Must match pattern ${schema.pattern}` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push({ path, message: `Must contain at least ${schema.minItems} items` });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push({ path, message: `Must contain at most ${schema.maxItems} items` });
+        }
+        if (schema.items) {
+            const itemSchema = schema.items;
+            value.forEach((item, index) => errors.push(...validateSchema(item, itemSchema, [...path, index])));
+        }
+    }
+
+    if (isPlainObject(value)) {
+        const properties = schema.properties ?? {};
+        for (const key of schema.required ?? []) {
+            if (!(key in value)) {
+                errors.push({ path, message: `Missing required property "${key}"` });
+            }
+        }
+        for (const [key, propertyValue] of Object.entries(value)) {
+            if (properties[key]) {
+                errors.push(...validateSchema(propertyValue, properties[key], [...path, key]));
+            } else if (schema.additionalProperties === false) {
+                errors.push({ path: [...path, key], message: `Unknown property "${key}"`, isKey: true });
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateSchema(propertyValue, schema.additionalProperties, [...path, key]));
+            }
+        }
+    }
+
+    if (schema.anyOf && !schema.anyOf.some(option => validateSchema(value, option, path).length === 0)) {
+        errors.push({ path, message: 'Does not match any of the allowed shapes' });
+    }
+    if (schema.oneOf) {
+        const matches = schema.oneOf.filter(option => validateSchema(value, option, path).length === 0).length;
+        if (matches !== 1) {
+            errors.push({ path, message: matches === 0 ? 'Does not match any of the allowed shapes' : 'Matches more than one of the allowed shapes' });
+        }
+    }
+
+    return errors;
+}
+
+export function formatSchemaPath(path: (string | number)[]): string {
+    return path.reduce<string>((result, segment) =>
+        typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment, '') || '(root)';
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'integer': return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean': return typeof value === 'boolean';
+        case 'array': return Array.isArray(value);
+        case 'object': return isPlainObject(value);
+        case 'null': return value === null;
+        default: return true;
+    }
+}
+
+function describeType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { WizardPanel } from './wizardPanel';
+import { getMcpUrl, getSettings } from './settings';
+
+const SECRET_KEY_PREFIX = 'bluetext.mcpCredentials:';
+// Refresh OAuth tokens a little early, so a request never goes out with one about to expire
+const EXPIRY_MARGIN_MS = 60000;
+const REFRESH_TIMEOUT_MS = 15000;
+
+/**
+ * Credentials for one server, kept in SecretStorage. Both kinds are sent as
+ * `Authorization: Bearer`; OAuth tokens can also be refreshed.
+ */
+export type McpCredentials =
+    | { kind: 'bearer'; token: string }
+    | {
+        kind: 'oauth';
+        accessToken: string;
+        refreshToken?: string;
+        /** Token endpoint used for the refresh_token grant */
+        tokenUrl?: string;
+        clientId?: string;
+        /** Milliseconds since the epoch */
+        expiresAt?: number;
+    };
+
+/**
+ * Looks after the tokens of authenticated MCP servers. Credentials are
+ * stored per server URL, so a token is only ever sent to the server it was
+ * set for, and changing `bluetext.mcpUrl` doesn't leak it to another host.
+ */
+export class McpAuth {
+    private static instance: McpAuth | undefined;
+    private secrets: vscode.SecretStorage | undefined;
+    private readonly refreshing = new Map<string, Promise<boolean>>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires when any server's credentials are set, refreshed or cleared */
+    public readonly onDidChangeCredentials = this.changeEmitter.event;
+
+    private constructor() {}
+
+    public static getInstance(): McpAuth {
+        if (!McpAuth.instance) {
+            McpAuth.instance = new McpAuth();
+        }
+        return McpAuth.instance;
+    }
+
+    public initialize(context: vscode.ExtensionContext): void {
+        this.secrets = context.secrets;
+        context.subscriptions.push(
+            this.changeEmitter,
+            context.secrets.onDidChange(event => {
+                if (event.key.startsWith(SECRET_KEY_PREFIX)) {
+                    this.changeEmitter.fire();
+                }
+            })
+        );
+    }
+
+    public async getCredentials(folder?: vscode.WorkspaceFolder): Promise<McpCredentials | undefined> {
+        const stored = await this.secrets?.get(this.getSecretKey(folder));
+        if (!stored) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(stored);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * The token for the folder's server, refreshing an expired OAuth token
+     * first when it can be. Undefined when none is set.
+     */
+    public async getToken(folder?: vscode.WorkspaceFolder): Promise<string | undefined> {
+        let credentials = await this.getCredentials(folder);
+        if (credentials?.kind === 'oauth' && credentials.expiresAt !== undefined && credentials.expiresAt - EXPIRY_MARGIN_MS < Date.now()) {
+            if (await this.refresh(folder)) {
+                credentials = await this.getCredentials(folder);
+            }
+        }
+        if (!credentials) {
+            return undefined;
+        }
+        return credentials.kind === 'bearer' ? credentials.token : credentials.accessToken;
+    }
+
+    /**
+     * Headers for requests to the folder's server: `bluetext.mcpHeaders`
+     * plus the Authorization header when a token is set.
+     */
+    public async getHeaders(folder?: vscode.WorkspaceFolder): Promise<Record<string, string>> {
+        const headers = { ...getSettings(folder).mcpHeaders };
+        const token = await this.getToken(folder);
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Swaps the refresh token for a new access token. Resolves false when the
+     * credentials can't be refreshed or the token endpoint refuses; the old
+     * credentials are kept so the user can see why requests fail.
+     */
+    public refresh(folder?: vscode.WorkspaceFolder): Promise<boolean> {
+        const key = this.getSecretKey(folder);
+        let refreshing = this.refreshing.get(key);
+        if (!refreshing) {
+            refreshing = this.refreshOAuthToken(folder).finally(() => this.refreshing.delete(key));
+            this.refreshing.set(key, refreshing);
+        }
+        return refreshing;
+    }
+
+    /**
+     * Asks for a bearer token or OAuth credentials for the folder's server and
+     * stores them. Nothing is stored if the user cancels part way.
+     */
+    public async promptForCredentials(folder?: vscode.WorkspaceFolder): Promise<boolean> {
+        const url = getMcpUrl(folder);
+        const picked = await vscode.window.showQuickPick([
+            { label: 'Bearer token', description: 'A static API token', type: 'bearer' as const },
+            { label: 'OAuth token', description: 'An access token, optionally with a refresh token', type: 'oauth' as const }
+        ], { title: `Credentials for ${url}`, placeHolder: 'Select the kind of token the server expects' });
+        if (!picked) {
+            return false;
+        }
+
+        let credentials: McpCredentials;
+        if (picked.type === 'bearer') {
+            const token = await this.askSecret('Bearer token', `Sent as "Authorization: Bearer <token>" to ${url}`);
+            if (!token) {
+                return false;
+            }
+            credentials = { kind: 'bearer', token };
+        } else {
+            const accessToken = await this.askSecret('OAuth access token', `Sent as "Authorization: Bearer <token>" to ${url}`);
+            if (!accessToken) {
+                return false;
+            }
+            const refreshToken = await this.askSecret('OAuth refresh token', 'Optional. Leave empty if the server gives no refresh token', true);
+            if (refreshToken === undefined) {
+                return false;
+            }
+            credentials = { kind: 'oauth', accessToken };
+            if (refreshToken) {
+                const tokenUrl = await vscode.window.showInputBox({
+                    title: 'OAuth token endpoint',
+                    prompt: 'URL the refresh token is exchanged at',
+                    ignoreFocusOut: true,
+                    validateInput: value => /^https?:\/\/\S+$/.test(value.trim()) ? undefined : 'Enter an http or https URL'
+                });
+                if (!tokenUrl) {
+                    return false;
+                }
+                const clientId = await vscode.window.showInputBox({
+                    title: 'OAuth client ID',
+                    prompt: 'Optional. Sent with the refresh request',
+                    ignoreFocusOut: true
+                });
+                if (clientId === undefined) {
+                    return false;
+                }
+                credentials = { kind: 'oauth', accessToken, refreshToken, tokenUrl: tokenUrl.trim(), clientId: clientId.trim() || undefined };
+            }
+        }
+
+        await this.store(folder, credentials);
+        WizardPanel.getInstance().logToTerminal(`🔑 Saved a ${picked.label.toLowerCase()} for ${url}`, 'success');
+        return true;
+    }
+
+    public async clearCredentials(folder?: vscode.WorkspaceFolder): Promise<void> {
+        await this.secrets?.delete(this.getSecretKey(folder));
+        WizardPanel.getInstance().logToTerminal(`🔑 Removed the stored token for ${getMcpUrl(folder)}`, 'info');
+    }
+
+    private async store(folder: vscode.WorkspaceFolder | undefined, credentials: McpCredentials): Promise<void> {
+        if (!this.secrets) {
+            throw new Error('Secret storage is not available yet');
+        }
+        await this.secrets.store(this.getSecretKey(folder), JSON.stringify(credentials));
+    }
+
+    private async refreshOAuthToken(folder: vscode.WorkspaceFolder | undefined): Promise<boolean> {
+        const credentials = await this.getCredentials(folder);
+        if (credentials?.kind !== 'oauth' || !credentials.refreshToken || !credentials.tokenUrl) {
+            return false;
+        }
+
+        const form = new URLSearchParams();
+        form.set('grant_type', 'refresh_token');
+        form.set('refresh_token', credentials.refreshToken);
+        if (credentials.clientId) {
+            form.set('client_id', credentials.clientId);
+        }
+        const panel = WizardPanel.getInstance();
+        try {
+            const response = await postForm(credentials.tokenUrl, form.toString());
+            if (typeof response?.access_token !== 'string') {
+                throw new Error('The token endpoint did not return an access_token');
+            }
+            await this.store(folder, {
+                ...credentials,
+                accessToken: response.access_token,
+                refreshToken: typeof response.refresh_token === 'string' ? response.refresh_token : credentials.refreshToken,
+                expiresAt: typeof response.expires_in === 'number' ? Date.now() + response.expires_in * 1000 : undefined
+            });
+            panel.logToTerminal('🔑 Refreshed the MCP server\'s OAuth token', 'info');
+            return true;
+        } catch (error) {
+            panel.logToTerminal(`⚠️  Could not refresh the OAuth token: ${error instanceof Error ? error.message : error}`, 'error');
+            return false;
+        }
+    }
+
+    private async askSecret(title: string, prompt: string, optional: boolean = false): Promise<string | undefined> {
+        const value = await vscode.window.showInputBox({
+            title,
+            prompt,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => optional || value.trim() ? undefined : 'Enter a token'
+        });
+        return value?.trim();
+    }
+
+    private getSecretKey(folder: vscode.WorkspaceFolder | undefined): string {
+        return SECRET_KEY_PREFIX + getMcpUrl(folder);
+    }
+}
+
+/**
+ * POSTs a form to an OAuth token endpoint and parses the JSON answer.
+ */
+function postForm(url: string, body: string): Promise<any> {
+    const target = new URL(url);
+    const request = target.protocol === 'https:' ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+        const headers: http.OutgoingHttpHeaders = {};
+        headers['Content-Type'] = 'application/x-www-form-urlencoded';
+        headers['Accept'] = 'application/json';
+        const req = request(target, { method: 'POST', headers, timeout: REFRESH_TIMEOUT_MS }, res => {
+            let text = '';
+            res.setEncoding('utf8');
+            res.on('data', chunk => { text += chunk; });
+            res.on('end', () => {
+                const status = res.statusCode ?? 0;
+                if (status < 200 || status >= 300) {
+                    reject(new Error(`HTTP ${status}${text ? `: ${text.trim().slice(0, 200)}` : ''}`));
+                    return;
+                }
+                try {
+                    resolve(JSON.parse(text));
+                } catch {
+                    reject(new Error('The token endpoint returned invalid JSON'));
+                }
+            });
+        });
+        req.on('timeout', () => req.destroy(new Error('The token endpoint did not answer in time')));
+        req.on('error', reject);
+        req.end(body);
+    });
+}
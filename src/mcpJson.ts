@@ -0,0 +1,208 @@
+import { applyEdits, findNodeAtLocation, modify, parse, ParseError, parseTree, printParseErrorCode } from 'jsonc-parser';
+import { formatSchemaPath, JsonSchema, SchemaError, validateSchema } from './jsonSchema';
+
+/**
+ * The part of VS Code's `.vscode/mcp.json` schema this extension relies on.
+ * Server entries are left open since VS Code accepts more keys than we write.
+ */
+const MCP_JSON_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        servers: {
+            type: 'object',
+            additionalProperties: {
+                anyOf: [
+                    {
+                        type: 'object',
+                        required: ['command'],
+                        properties: {
+                            type: { const: 'stdio' },
+                            command: { type: 'string', minLength: 1 },
+                            args: { type: 'array', items: { type: 'string' } },
+                            env: { type: 'object' },
+                            envFile: { type: 'string' }
+                        }
+                    },
+                    {
+                        type: 'object',
+                        required: ['url'],
+                        properties: {
+                            type: { enum: ['http', 'sse'] },
+                            url: { type: 'string', pattern: '^https?://' },
+                            headers: { type: 'object', additionalProperties: { type: 'string' } }
+                        }
+                    }
+                ]
+            }
+        },
+        inputs: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'type'],
+                properties: {
+                    id: { type: 'string', minLength: 1 },
+                    type: { enum: ['promptString', 'pickString', 'command'] },
+                    description: { type: 'string' },
+                    password: { type: 'boolean' }
+                }
+            }
+        }
+    }
+};
+
+export interface McpServerConfig {
+    type: string;
+    url: string;
+    headers?: Record<string, string>;
+}
+
+/** An entry of mcp.json's `inputs`, which VS Code asks the user for */
+export interface McpInputConfig {
+    id: string;
+    type: 'promptString';
+    description: string;
+    password?: boolean;
+}
+
+export interface McpJsonEditResult {
+    content: string;
+    changed: boolean;
+}
+
+/**
+ * Parses mcp.json the way VS Code does, allowing comments and trailing commas.
+ * Throws rather than guessing when the file is broken, so it is never replaced.
+ */
+export function parseMcpJson(content: string): any {
+    if (!content.trim()) {
+        return {};
+    }
+    const errors: ParseError[] = [];
+    const value = parse(content, errors, { allowTrailingComma: true });
+    if (errors.length > 0) {
+        const first = errors[0];
+        throw new Error(`mcp.json is not valid JSON (${printParseErrorCode(first.error)} at offset ${first.offset})`);
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Top level of mcp.json must be an object');
+    }
+    return value;
+}
+
+/**
+ * Adds or updates one server entry, leaving other servers, inputs, comments
+ * and formatting as they were. Keys we don't manage, like `headers`, are kept.
+ * Claude Code's .mcp.json has the same layout under `mcpServers`, and
+ * ~/.claude.json keeps local scope servers under `projects.<folder>.mcpServers`.
+ */
+export function setMcpServer(existing: string, name: string, server: McpServerConfig, serversKey: string | string[] = 'servers'): McpJsonEditResult {
+    const serversPath = toPath(serversKey);
+    const config = parseMcpJson(existing);
+    if (!existing.trim()) {
+        const servers = serversPath.reduceRight<unknown>((value, key) => ({ [key]: value }), { [name]: server });
+        return { content: JSON.stringify(servers, null, 2) + '\n', changed: true };
+    }
+
+    const current = getAtPath(config, [...serversPath, name]);
+    let content = existing;
+    if (typeof current === 'object' && current !== null && !Array.isArray(current)) {
+        for (const [key, value] of Object.entries(server)) {
+            if (JSON.stringify(current[key]) !== JSON.stringify(value)) {
+                content = applyModify(content, [...serversPath, name, key], value);
+            }
+        }
+    } else {
+        content = applyModify(content, [...serversPath, name], server);
+    }
+    return { content, changed: content !== existing };
+}
+
+/** Reads one server entry; `serversKey` is as for `setMcpServer` */
+export function getMcpServer(config: any, name: string, serversKey: string | string[] = 'servers'): any {
+    return getAtPath(config, [...toPath(serversKey), name]);
+}
+
+/**
+ * Adds an input unless one with the same id exists, so a value the user
+ * already changed is kept.
+ */
+export function addMcpInput(existing: string, input: McpInputConfig): McpJsonEditResult {
+    const config = parseMcpJson(existing);
+    if (!existing.trim()) {
+        return { content: JSON.stringify({ inputs: [input] }, null, 2) + '\n', changed: true };
+    }
+    const inputs = config.inputs;
+    if (Array.isArray(inputs) && inputs.some(item => item?.id === input.id)) {
+        return { content: existing, changed: false };
+    }
+    const content = Array.isArray(inputs)
+        ? applyEdits(existing, modify(existing, ['inputs', -1], input, { formattingOptions: detectFormatting(existing) }))
+        : applyModify(existing, ['inputs'], [input]);
+    return { content, changed: true };
+}
+
+export function removeMcpServer(existing: string, name: string, serversKey: string | string[] = 'servers'): McpJsonEditResult {
+    const serversPath = toPath(serversKey);
+    if (getAtPath(parseMcpJson(existing), [...serversPath, name]) === undefined) {
+        return { content: existing, changed: false };
+    }
+    const content = applyModify(existing, [...serversPath, name], undefined);
+    return { content, changed: true };
+}
+
+export function validateMcpJson(config: unknown): SchemaError[] {
+    return validateSchema(config, MCP_JSON_SCHEMA);
+}
+
+export function formatMcpJsonProblem(error: SchemaError): string {
+    return `${formatSchemaPath(error.path)}: ${error.message}`;
+}
+
+/**
+ * jsonc-parser reformats whole lines around inserts and removals, which
+ * expands single-line siblings like `"other": { "command": "node" }`. Edits are
+ * therefore applied unformatted, and a new property is laid out to match the
+ * property before it.
+ */
+function applyModify(content: string, jsonPath: (string | number)[], value: unknown): string {
+    const formattingOptions = detectFormatting(content);
+    const eol = formattingOptions.eol;
+    const parent = findNodeAtLocation(parseTree(content)!, jsonPath.slice(0, -1));
+    const siblings = parent?.type === 'object' ? parent.children ?? [] : [];
+    const isInsert = value !== undefined && !siblings.some(property => property.children?.[0].value === jsonPath[jsonPath.length - 1]);
+
+    if (!isInsert) {
+        return applyEdits(content, modify(content, jsonPath, value, {}));
+    }
+    if (siblings.length === 0) {
+        return applyEdits(content, modify(content, jsonPath, value, { formattingOptions }));
+    }
+
+    const previous = siblings[siblings.length - 1];
+    const lineStart = content.lastIndexOf('\n', previous.offset) + 1;
+    const indent = /^[ \t]*/.exec(content.substring(lineStart))![0];
+    const unit = formattingOptions.insertSpaces ? ' '.repeat(formattingOptions.tabSize) : '\t';
+    const property = `${JSON.stringify(jsonPath[jsonPath.length - 1])}: ${JSON.stringify(value, null, unit)}`;
+    // A trailing comma after the last property is allowed, so it is reused rather than doubled
+    const trailingComma = /^\s*,/.exec(content.substring(previous.offset + previous.length));
+    const insertAt = previous.offset + previous.length + (trailingComma ? trailingComma[0].length : 0);
+    return content.substring(0, insertAt) + (trailingComma ? '' : ',') + eol + indent + property.split('\n').join(eol + indent) + content.substring(insertAt);
+}
+
+function toPath(serversKey: string | string[]): string[] {
+    return typeof serversKey === 'string' ? [serversKey] : serversKey;
+}
+
+function getAtPath(value: any, jsonPath: string[]): any {
+    return jsonPath.reduce((current, key) => current?.[key], value);
+}
+
+function detectFormatting(content: string): { insertSpaces: boolean; tabSize: number; eol: string } {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const indent = /^([ \t]+)\S/m.exec(content)?.[1];
+    if (indent?.startsWith('\t')) {
+        return { insertSpaces: false, tabSize: 4, eol };
+    }
+    return { insertSpaces: true, tabSize: indent ? indent.length : 2, eol };
+}
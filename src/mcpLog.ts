@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+
+let channel: vscode.LogOutputChannel | undefined;
+
+/**
+ * The "Bluetext MCP Log" channel, where `notifications/message` log entries
+ * from the server end up. Its log level is what we ask the server to send.
+ */
+export function getMcpLogChannel(): vscode.LogOutputChannel {
+    if (!channel) {
+        channel = vscode.window.createOutputChannel('Bluetext MCP Log', { log: true });
+    }
+    return channel;
+}
+
+/**
+ * The MCP level for `logging/setLevel` that matches the channel's level.
+ */
+export function getMcpLogLevel(): string {
+    switch (getMcpLogChannel().logLevel) {
+        case vscode.LogLevel.Trace:
+        case vscode.LogLevel.Debug:
+            return 'debug';
+        case vscode.LogLevel.Info:
+            return 'info';
+        case vscode.LogLevel.Warning:
+            return 'warning';
+        case vscode.LogLevel.Error:
+            return 'error';
+        default:
+            return 'emergency'; // Logging is off, so only ask for the least we can
+    }
+}
+
+export function logServerMessage(params: any): void {
+    const log = getMcpLogChannel();
+    const data = typeof params?.data === 'string' ? params.data : JSON.stringify(params?.data);
+    const text = params?.logger ? `[${params.logger}] ${data}` : data;
+    switch (params?.level) {
+        case 'debug':
+            log.debug(text);
+            break;
+        case 'warning':
+            log.warn(text);
+            break;
+        case 'error':
+        case 'critical':
+        case 'alert':
+        case 'emergency':
+            log.error(text);
+            break;
+        default:
+            log.info(text);
+    }
+}
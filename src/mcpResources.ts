@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { guessLanguage, openEmbeddedResource } from './toolResults';
+
+const RESOURCE_SCHEME = 'bluetext-mcp';
+
+/** One entry of a resources/read result */
+export interface ResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+}
+
+export type ResourceReader = (uri: string) => Promise<ResourceContents[]>;
+
+/**
+ * Serves MCP resources as read-only documents. The resource URI travels in
+ * the query so the path can stay readable in the editor tab.
+ */
+class McpResourceProvider implements vscode.TextDocumentContentProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.changeEmitter.event;
+    // Content read while opening a document, so it isn't fetched twice
+    public readonly pending = new Map<string, ResourceContents[]>();
+    public reader: ResourceReader | undefined;
+
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const resourceUri = uri.query;
+        let contents = this.pending.get(resourceUri);
+        this.pending.delete(resourceUri);
+        if (!contents) {
+            if (!this.reader) {
+                throw new Error('The MCP client is not ready');
+            }
+            contents = await this.reader(resourceUri);
+        }
+        return contents.map(content => content.text ?? `[binary content, ${content.mimeType ?? 'unknown type'}]`).join('\n');
+    }
+
+    public refresh(resourceUri: string): void {
+        this.changeEmitter.fire(toDocumentUri(resourceUri));
+    }
+}
+
+const provider = new McpResourceProvider();
+
+export function registerMcpResourceProvider(context: vscode.ExtensionContext, reader: ResourceReader): void {
+    provider.reader = reader;
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(RESOURCE_SCHEME, provider));
+}
+
+/**
+ * Opens a resource in an editor: text as a `bluetext-mcp:` document,
+ * binary content from a temporary file.
+ */
+export async function openMcpResource(resourceUri: string, contents: ResourceContents[]): Promise<void> {
+    if (contents.length === 0) {
+        throw new Error(`Server returned no content for ${resourceUri}`);
+    }
+    if (contents.length === 1 && contents[0].blob !== undefined) {
+        await openEmbeddedResource({ type: 'resource', resource: contents[0] });
+        return;
+    }
+
+    provider.pending.set(resourceUri, contents);
+    const documentUri = toDocumentUri(resourceUri);
+    // An open document isn't read again on its own, so show the fresh content
+    if (vscode.workspace.textDocuments.some(document => document.uri.toString() === documentUri.toString())) {
+        provider.refresh(resourceUri);
+    }
+    const document = await vscode.workspace.openTextDocument(documentUri);
+    const language = guessLanguage(resourceUri, contents[0].mimeType);
+    await vscode.window.showTextDocument(
+        language !== 'plaintext' && document.languageId !== language
+            ? await vscode.languages.setTextDocumentLanguage(document, language)
+            : document,
+        { preview: true }
+    );
+}
+
+/**
+ * Expands an RFC 6570 URI template such as `file:///{path}` or
+ * `repo://{owner}/{name}{?ref}` with the given variable values.
+ */
+export function expandUriTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{([+#./;?&]?)([^}]+)\}/g, (_match, operator: string, expression: string) => {
+        const allowReserved = operator === '+' || operator === '#';
+        const named = operator === ';' || operator === '?' || operator === '&';
+        const separator = operator === '' || allowReserved ? ',' : operator === '?' ? '&' : operator;
+        const prefix = operator === '+' ? '' : operator;
+
+        const parts = expression.split(',')
+            .map(variable => variable.replace(/[*]$|:\d+$/, ''))
+            .filter(name => values[name] !== undefined && values[name] !== '')
+            .map(name => {
+                const value = allowReserved ? encodeURI(values[name]) : encodeURIComponent(values[name]);
+                return named ? `${name}=${value}` : value;
+            });
+        return parts.length > 0 ? prefix + parts.join(separator) : '';
+    });
+}
+
+export function getUriTemplateVariables(template: string): string[] {
+    const names = new Set<string>();
+    for (const match of template.matchAll(/\{[+#./;?&]?([^}]+)\}/g)) {
+        match[1].split(',').forEach(variable => names.add(variable.replace(/[*]$|:\d+$/, '')));
+    }
+    return [...names];
+}
+
+function toDocumentUri(resourceUri: string): vscode.Uri {
+    let label: string;
+    try {
+        const parsed = vscode.Uri.parse(resourceUri, true);
+        label = `${parsed.authority}/${parsed.path}`.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+    } catch {
+        label = '';
+    }
+    return vscode.Uri.from({ scheme: RESOURCE_SCHEME, path: `/${label || 'resource'}`, query: resourceUri });
+}
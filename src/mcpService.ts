@@ -1,13 +1,193 @@
 import * as http from 'http';
+import * as https from 'https';
 import * as vscode from 'vscode';
 import { WizardPanel } from './wizardPanel';
+import { getWorkspaceFolders } from './workspaceFolders';
+import { describeMcpEndpoint, getMcpEndpoint } from './settings';
+import { McpAuth } from './mcpAuth';
+import { openEmbeddedResource, PromptMessage, renderPromptResult, RenderedToolResult, renderToolResult, ToolCallResult, ToolContent } from './toolResults';
+import { expandUriTemplate, getUriTemplateVariables, openMcpResource, ResourceContents } from './mcpResources';
+import { getMcpLogLevel, logServerMessage } from './mcpLog';
+import { askForElicitation } from './elicitation';
+import { createSamplingMessage } from './sampling';
+import { HealthState, McpHealthMonitor } from './healthMonitor';
+
+const LATEST_PROTOCOL_VERSION = '2025-06-18';
+const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+const MAX_KEPT_TOOL_RUNS = 20;
+const TOOL_ARGUMENTS_KEY = 'bluetext.toolArguments';
+const MAX_LIST_PAGES = 20;
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+const EVENT_STREAM_RETRY_MS = 2000;
+// Socket idle time, so progress notifications keep a long tool call alive
+const TOOL_CALL_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface JsonRpcError {
+    code: number;
+    message: string;
+    data?: any;
+}
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method?: string;
+    params?: any;
+    result?: any;
+    error?: JsonRpcError;
+}
+
+/**
+ * Raised when the server answers with a non-2xx status. A 404 while a session
+ * is active means the server has dropped the session and we must re-initialize.
+ */
+class McpHttpError extends Error {
+    constructor(public readonly statusCode: number, body: string) {
+        super(`HTTP ${statusCode}${body ? `: ${body.slice(0, 200)}` : ''}`);
+    }
+}
+
+/** Content of a tool or prompt run; `rendered` is only set for tool runs */
+interface ToolRun {
+    content: ToolContent[];
+    rendered?: RenderedToolResult;
+}
+
+/**
+ * A JSON-RPC error response, keeping the code so callers can tell an
+ * unsupported method from a failed one.
+ */
+class McpRpcError extends Error {
+    constructor(public readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Raised when a request is given up on, either because it timed out or the
+ * user cancelled it. The server is told with `notifications/cancelled`.
+ */
+class McpCancelledError extends Error {}
+
+/** The latest `notifications/progress` for a tool call */
+export interface ToolProgress {
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+/** A tool call that hasn't answered yet, keyed by run id (also its progress token) */
+interface ActiveToolRun {
+    toolName: string;
+    controller: AbortController;
+    onProgress?: (progress: ToolProgress) => void;
+}
+
+/**
+ * Incremental parser for `text/event-stream` bodies. Events may be split
+ * across chunks, so partial lines are buffered until their terminator arrives.
+ */
+class SseParser {
+    private buffer = '';
+    private data: string[] = [];
+    private eventType = '';
+
+    constructor(private readonly onEvent: (event: string, data: string) => void) {}
+
+    public push(chunk: string): void {
+        this.buffer += chunk;
+        let newline: number;
+        while ((newline = this.buffer.search(/\r\n|\r|\n/)) !== -1) {
+            if (newline === this.buffer.length - 1 && this.buffer.endsWith('\r')) {
+                break; // Might be the first half of a CRLF split across chunks
+            }
+            const line = this.buffer.slice(0, newline);
+            const terminatorLength = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+            this.buffer = this.buffer.slice(newline + terminatorLength);
+            this.processLine(line);
+        }
+    }
+
+    public end(): void {
+        if (this.buffer) {
+            this.processLine(this.buffer);
+            this.buffer = '';
+        }
+        this.processLine('');
+    }
+
+    private processLine(line: string): void {
+        if (line === '') {
+            if (this.data.length > 0) {
+                this.onEvent(this.eventType || 'message', this.data.join('\n'));
+            }
+            this.data = [];
+            this.eventType = '';
+            return;
+        }
+        if (line.startsWith(':')) {
+            return; // Comment / keep-alive
+        }
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) {
+            value = value.slice(1);
+        }
+
+        if (field === 'data') {
+            this.data.push(value);
+        } else if (field === 'event') {
+            this.eventType = value;
+        }
+    }
+}
 
 export class McpService {
     private static instance: McpService;
-    private healthCheckInterval: NodeJS.Timeout | undefined;
-    private isMonitoring: boolean = false;
-
-    private constructor() {}
+    private readonly health = new McpHealthMonitor(
+        () => this.request('ping', {}, 5000),
+        () => this.getTargetFolder()
+    );
+
+    // Streamable HTTP session state, established by the initialize handshake
+    private sessionId: string | undefined;
+    private protocolVersion: string | undefined;
+    private serverCapabilities: any;
+    private serverName: string | undefined;
+    private eventStream: http.ClientRequest | undefined;
+    private initializing: Promise<void> | undefined;
+    private nextRequestId: number = 1;
+
+    // Workspace folder whose server this client talks to
+    private targetFolder: vscode.WorkspaceFolder | undefined;
+
+    // Tools from the last tools/list (undefined until fetched), and recent runs
+    // so the result view can be shown again and open resources after the fact
+    private tools: Map<string, any> | undefined;
+    private toolsError: string | undefined;
+    private toolRuns = new Map<number, ToolRun>();
+    private activeToolRuns = new Map<number, ActiveToolRun>();
+    private nextRunId: number = 1;
+
+    // Fires when the tool list or the recent runs change
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    // Where the last arguments of each tool are kept (workspaceState)
+    private argumentStorage: vscode.Memento | undefined;
+
+    private constructor() {
+        // The session dies with the server, so the next request must re-initialize
+        this.health.onDidChangeState(state => {
+            if (state === 'down') {
+                this.resetSession();
+            }
+            this.changeEmitter.fire();
+        });
+    }
 
     public static getInstance(): McpService {
         if (!McpService.instance) {
@@ -16,311 +196,802 @@ export class McpService {
         return McpService.instance;
     }
 
-    public startHealthMonitoring(): void {
-        if (this.isMonitoring) {
-            return; // Already monitoring
+    public setArgumentStorage(storage: vscode.Memento): void {
+        this.argumentStorage = storage;
+    }
+
+    public getTargetFolder(): vscode.WorkspaceFolder | undefined {
+        return this.targetFolder ?? getWorkspaceFolders()[0];
+    }
+
+    /**
+     * Points the client at another folder's server. The old session and
+     * health monitoring belong to the previous server, so both are dropped.
+     */
+    public setTargetFolder(folder: vscode.WorkspaceFolder | undefined): void {
+        if (folder?.uri.toString() === this.targetFolder?.uri.toString()) {
+            return;
         }
+        this.stopHealthMonitoring();
+        this.resetSession();
+        this.targetFolder = folder;
+        this.tools = undefined;
+        this.toolsError = undefined;
+        this.changeEmitter.fire();
+    }
 
-        this.isMonitoring = true;
-        const panel = WizardPanel.getInstance();
-        
-        panel.logToTerminal('🔍 Starting MCP server health monitoring...', 'info');
+    /**
+     * Drops the session after the endpoint settings change, so the next
+     * request starts a new one with the server they now point at.
+     */
+    public resetConnection(): void {
+        this.resetSession();
+    }
+
+    /** Tools from the last successful tools/list, or undefined if none has run */
+    public getTools(): any[] | undefined {
+        return this.tools ? [...this.tools.values()] : undefined;
+    }
+
+    public getToolsError(): string | undefined {
+        return this.toolsError;
+    }
+
+    /**
+     * The arguments each tool last ran with in this workspace, used to
+     * pre-fill its form the next time.
+     */
+    public getSavedArguments(): Record<string, any> {
+        return this.argumentStorage?.get<Record<string, any>>(TOOL_ARGUMENTS_KEY, {}) ?? {};
+    }
 
-        // Check immediately
-        this.checkServerHealth();
+    /** The most recent tool runs, newest first */
+    public getRecentRuns(): RenderedToolResult[] {
+        return [...this.toolRuns.values()]
+            .map(run => run.rendered)
+            .filter((rendered): rendered is RenderedToolResult => rendered !== undefined)
+            .reverse();
+    }
 
-        // Then check every 2 seconds for near-instant detection
-        this.healthCheckInterval = setInterval(() => {
-            this.checkServerHealth();
-        }, 2000);
+    public startHealthMonitoring(): void {
+        this.health.start();
     }
 
     public stopHealthMonitoring(): void {
-        if (this.healthCheckInterval) {
-            clearInterval(this.healthCheckInterval);
-            this.healthCheckInterval = undefined;
-        }
-        this.isMonitoring = false;
-        
-        const panel = WizardPanel.getInstance();
-        panel.logToTerminal('🛑 Stopped MCP server health monitoring', 'info');
+        this.health.stop();
+    }
+
+    public getHealthState(): HealthState | undefined {
+        return this.health.getState();
     }
 
-    private async checkServerHealth(): Promise<void> {
-        const config = vscode.workspace.getConfiguration('bluetext');
-        const mcpPort = config.get<number>('mcpPort', 31338);
+    public async fetchTools(): Promise<void> {
         const panel = WizardPanel.getInstance();
 
-        return new Promise<void>((resolve) => {
-            const options = {
-                hostname: '127.0.0.1',
-                port: mcpPort,
-                path: '/mcp',
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
-                }
-            };
+        panel.logToTerminal(`🔍 Fetching tools from MCP server...`, 'info');
+        panel.logToTerminal(`Connecting to ${this.getEndpointLabel()}`, 'info');
+
+        try {
+            const result = await this.request('tools/list', {}, 10000);
+            const tools = result?.tools || [];
+            this.tools = new Map(tools.map((tool: any) => [tool.name, tool]));
+            this.toolsError = undefined;
+            this.changeEmitter.fire();
+
+            if (tools.length > 0) {
+                panel.logToTerminal(`✓ Found ${tools.length} tools`, 'success');
+                const toolNames = tools.slice(0, 3).map((t: any) => t.name).join(', ');
+                panel.logToTerminal(`Tools: ${toolNames}${tools.length > 3 ? '...' : ''}`, 'info');
+            } else {
+                panel.logToTerminal(`⚠️  No tools found in response`, 'info');
+            }
 
-            const req = http.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    // Server responded, it's alive
-                    resolve();
-                });
-                res.on('error', () => {
-                    // Server connection failed
-                    this.handleServerDown();
-                    resolve();
-                });
+            this.sendToolsToWizard();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.toolsError = message;
+            this.changeEmitter.fire();
+            panel.logToTerminal(`❌ Failed to fetch tools: ${message}`, 'error');
+            panel.logToTerminal(`💡 Make sure MCP server is running at ${this.getEndpointLabel()}`, 'info');
+
+            panel.sendMessage({
+                command: 'updateTools',
+                tools: [],
+                error: message
             });
 
-            req.on('error', () => {
-                // Server is down
-                this.handleServerDown();
-                resolve();
-            });
+            throw error;
+        }
+    }
 
-            req.on('timeout', () => {
-                req.destroy();
-                this.handleServerDown();
-                resolve();
-            });
+    /**
+     * Sends the current tool list to the wizard, along with the arguments
+     * each tool last ran with.
+     */
+    public sendToolsToWizard(): void {
+        WizardPanel.getInstance().sendMessage({
+            command: 'updateTools',
+            tools: this.getTools() ?? [],
+            savedArguments: this.getSavedArguments()
+        });
+    }
 
-            req.setTimeout(5000); // 5 second timeout for health checks
+    /**
+     * Calls a tool under a cancellable progress notification and opens its
+     * result in the webview. The run id doubles as the progress token, so calls
+     * running side by side report separately. A tool reporting `isError` is
+     * shown as a failure and a call the user cancels resolves with a
+     * `cancelled` result; only a failed call itself throws.
+     */
+    public async executeTool(toolName: string, toolSchema: any, parameters?: any): Promise<RenderedToolResult> {
+        const panel = WizardPanel.getInstance();
 
-            const body = JSON.stringify({
-                jsonrpc: '2.0',
-                id: 999,
-                method: 'tools/list',
-                params: {}
-            });
+        // Use provided parameters or empty object. They're saved before the run
+        // is registered, so a failed save leaves no run behind.
+        const args = parameters || {};
+        await this.saveArguments(toolName, args);
 
-            try {
-                req.write(body);
-                req.end();
-            } catch (error) {
-                this.handleServerDown();
-                resolve();
+        const runId = this.nextRunId++;
+        const run: ActiveToolRun = { toolName, controller: new AbortController() };
+        this.activeToolRuns.set(runId, run);
+
+        panel.logToTerminal(`▶ Running tool: ${toolName}`, 'command');
+        panel.sendMessage({ command: 'toolRunStarted', runId, toolName });
+
+        // Log parameters if they exist
+        if (parameters && Object.keys(parameters).length > 0) {
+            panel.logToTerminal(`Parameters: ${JSON.stringify(parameters, null, 2)}`, 'info');
+        }
+
+        const startedAt = Date.now();
+        try {
+            const result: ToolCallResult | undefined = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running ${toolName}`, cancellable: true },
+                (progress, token) => {
+                    token.onCancellationRequested(() => run.controller.abort());
+                    // withProgress adds up increments while MCP reports the total so far
+                    let reported = 0;
+                    run.onProgress = update => {
+                        const percent = update.total ? Math.min(100, update.progress / update.total * 100) : reported;
+                        progress.report({ message: update.message, increment: Math.max(0, percent - reported) });
+                        reported = Math.max(reported, percent);
+                    };
+                    return this.request('tools/call', {
+                        name: toolName,
+                        arguments: args,
+                        _meta: { progressToken: runId }
+                    }, TOOL_CALL_IDLE_TIMEOUT_MS, run.controller.signal);
+                }
+            );
+
+            const rendered = renderToolResult(runId, toolName, result, this.tools?.get(toolName)?.outputSchema, Date.now() - startedAt);
+            this.rememberToolRun(runId, result?.content ?? [], rendered);
+            panel.sendMessage({ command: 'toolResult', result: rendered });
+
+            if (rendered.status === 'error') {
+                const text = result?.content?.find(block => block.type === 'text')?.text;
+                panel.logToTerminal(`❌ Tool reported an error${text ? `: ${text}` : ''}`, 'error');
+                return rendered;
             }
-        });
+            panel.logToTerminal(`✅ Tool executed successfully!`, 'success');
+            for (const schemaError of rendered.schemaErrors ?? []) {
+                panel.logToTerminal(`⚠️  Output does not match the tool's outputSchema: ${schemaError}`, 'error');
+            }
+            return rendered;
+        } catch (error) {
+            const cancelled = run.controller.signal.aborted;
+            const message = cancelled ? 'Cancelled' : error instanceof Error ? error.message : String(error);
+            panel.logToTerminal(cancelled ? `⏹ Cancelled ${toolName}` : `❌ Tool execution failed: ${message}`, cancelled ? 'info' : 'error');
+            const rendered: RenderedToolResult = { runId, toolName, status: 'error', durationMs: Date.now() - startedAt, blocks: [], error: message, cancelled };
+            this.rememberToolRun(runId, [], rendered);
+            panel.sendMessage({ command: 'toolResult', result: rendered });
+            if (cancelled) {
+                return rendered;
+            }
+            throw error;
+        } finally {
+            this.activeToolRuns.delete(runId);
+        }
+    }
+
+    /**
+     * Stops waiting for a running tool call and tells the server to abandon it.
+     */
+    public cancelToolRun(runId: number): void {
+        this.activeToolRuns.get(runId)?.controller.abort();
     }
 
-    private handleServerDown(): void {
-        if (!this.isMonitoring) {
-            return; // Don't update if we stopped monitoring
+    public showToolRun(runId: number): void {
+        const rendered = this.toolRuns.get(runId)?.rendered;
+        if (!rendered) {
+            vscode.window.showWarningMessage('This tool result is no longer available; run the tool again');
+            return;
         }
+        WizardPanel.getInstance().sendMessage({ command: 'showToolRun', result: rendered });
+    }
 
-        const panel = WizardPanel.getInstance();
-        panel.logToTerminal('⚠️  MCP server is not responding - resetting step 4', 'error');
-        panel.updateStepStatus(4, 'pending');
-        
-        // Stop monitoring since server is down
-        this.stopHealthMonitoring();
+    /**
+     * Opens a resource from a tool result: embedded resources as documents,
+     * web links in the browser and other links via resources/read.
+     */
+    public async openToolContent(runId: number, index: number): Promise<void> {
+        const block = this.toolRuns.get(runId)?.content[index];
+        if (!block) {
+            vscode.window.showWarningMessage('This tool result is no longer available; run the tool again');
+            return;
+        }
+
+        try {
+            if (block.type === 'resource') {
+                await openEmbeddedResource(block);
+            } else if (block.type === 'resource_link' && block.uri) {
+                const uri = vscode.Uri.parse(block.uri);
+                if (uri.scheme === 'http' || uri.scheme === 'https') {
+                    await vscode.env.openExternal(uri);
+                } else if (uri.scheme === 'file') {
+                    await vscode.commands.executeCommand('vscode.open', uri);
+                } else {
+                    await openMcpResource(block.uri, await this.readResource(block.uri));
+                }
+            }
+        } catch (error) {
+            const errorMsg = `Failed to open resource: ${error instanceof Error ? error.message : error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            WizardPanel.getInstance().logToTerminal(errorMsg, 'error');
+        }
     }
 
-    public async fetchTools(): Promise<void> {
+    /**
+     * Lists the server's resources and resource templates for the Resources
+     * tab. A server without the resources capability gets an empty list; a
+     * failure is reported to the wizard rather than thrown.
+     */
+    public async fetchResources(): Promise<void> {
         const panel = WizardPanel.getInstance();
-        const config = vscode.workspace.getConfiguration('bluetext');
-        const mcpPort = config.get<number>('mcpPort', 31338);
-        
-        panel.logToTerminal(`🔍 Fetching tools from MCP server...`, 'info');
+        try {
+            await this.ensureSession();
+            if (!this.serverCapabilities?.resources) {
+                panel.sendMessage({ command: 'updateResources', resources: [], templates: [], unsupported: true });
+                return;
+            }
 
-        return new Promise<void>((resolve, reject) => {
-            const options = {
-                hostname: '127.0.0.1',
-                port: mcpPort,
-                path: '/mcp',
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
+            const resources = await this.listAll('resources/list', 'resources');
+            let templates: any[] = [];
+            try {
+                templates = await this.listAll('resources/templates/list', 'resourceTemplates');
+            } catch (error) {
+                if (!(error instanceof McpRpcError && error.code === METHOD_NOT_FOUND)) {
+                    throw error;
                 }
-            };
+            }
 
-            panel.logToTerminal(`Connecting to 127.0.0.1:${mcpPort}/mcp`, 'info');
+            panel.logToTerminal(`✓ Found ${resources.length} resources and ${templates.length} resource templates`, 'success');
+            panel.sendMessage({
+                command: 'updateResources',
+                resources,
+                templates: templates.map(template => ({ ...template, variables: getUriTemplateVariables(template.uriTemplate ?? '') }))
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            panel.logToTerminal(`❌ Failed to fetch resources: ${message}`, 'error');
+            panel.sendMessage({ command: 'updateResources', resources: [], templates: [], error: message });
+        }
+    }
 
-            const req = http.request(options, (res) => {
-                panel.logToTerminal(`✓ Connected! Status: ${res.statusCode}`, 'success');
-                
-                let data = '';
+    /** Lists the server's prompts for the Prompts tab; failures are reported to the wizard */
+    public async fetchPrompts(): Promise<void> {
+        const panel = WizardPanel.getInstance();
+        try {
+            await this.ensureSession();
+            if (!this.serverCapabilities?.prompts) {
+                panel.sendMessage({ command: 'updatePrompts', prompts: [], unsupported: true });
+                return;
+            }
 
-                res.on('data', (chunk) => {
-                    data += chunk;
-                    panel.logToTerminal(`Received ${chunk.length} bytes...`, 'info');
-                });
+            const prompts = await this.listAll('prompts/list', 'prompts');
+            panel.logToTerminal(`✓ Found ${prompts.length} prompts`, 'success');
+            panel.sendMessage({ command: 'updatePrompts', prompts });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            panel.logToTerminal(`❌ Failed to fetch prompts: ${message}`, 'error');
+            panel.sendMessage({ command: 'updatePrompts', prompts: [], error: message });
+        }
+    }
 
-                res.on('end', () => {
-                    panel.logToTerminal(`✓ Response complete (${data.length} bytes total)`, 'success');
-                    
-                    try {
-                        const response = JSON.parse(data.trim());
-                        const tools = response?.result?.tools || [];
-                        
-                        if (tools.length > 0) {
-                            panel.logToTerminal(`✓ Found ${tools.length} tools`, 'success');
-                            const toolNames = tools.slice(0, 3).map((t: any) => t.name).join(', ');
-                            panel.logToTerminal(`Tools: ${toolNames}${tools.length > 3 ? '...' : ''}`, 'info');
-                        } else {
-                            panel.logToTerminal(`⚠️  No tools found in response`, 'info');
-                        }
+    public async readResource(uri: string): Promise<ResourceContents[]> {
+        const result = await this.request('resources/read', { uri }, 10000);
+        return result?.contents ?? [];
+    }
 
-                        panel.sendMessage({
-                            command: 'updateTools',
-                            tools: tools
-                        });
-
-                        resolve();
-                    } catch (error) {
-                        const errorMsg = `Failed to parse response: ${error}`;
-                        panel.logToTerminal(errorMsg, 'error');
-                        
-                        panel.sendMessage({
-                            command: 'updateTools',
-                            tools: [],
-                            error: String(error)
-                        });
-                        
-                        reject(error);
-                    }
-                });
+    /**
+     * Opens a resource as a read-only `bluetext-mcp:` document. With
+     * `templateValues`, `uri` is a URI template that is expanded first.
+     */
+    public async openResource(uri: string, templateValues?: Record<string, string>): Promise<void> {
+        const resourceUri = templateValues ? expandUriTemplate(uri, templateValues) : uri;
+        try {
+            WizardPanel.getInstance().logToTerminal(`Reading resource ${resourceUri}`, 'info');
+            await openMcpResource(resourceUri, await this.readResource(resourceUri));
+        } catch (error) {
+            const errorMsg = `Failed to open resource: ${error instanceof Error ? error.message : error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            WizardPanel.getInstance().logToTerminal(errorMsg, 'error');
+        }
+    }
 
-                res.on('error', (error) => {
-                    panel.logToTerminal(`Response stream error: ${error.message}`, 'error');
-                    panel.sendMessage({
-                        command: 'updateTools',
-                        tools: [],
-                        error: error.message
-                    });
-                    reject(error);
-                });
-            });
+    /**
+     * Fetches a prompt with the given arguments and shows its messages in
+     * the result view, where embedded resources can be opened like tool output.
+     * A failure is shown there instead of being thrown.
+     */
+    public async getPrompt(name: string, args: Record<string, string>): Promise<void> {
+        const panel = WizardPanel.getInstance();
+        const runId = this.nextRunId++;
+
+        panel.logToTerminal(`▶ Getting prompt: ${name}`, 'command');
+        panel.sendMessage({ command: 'promptRequested', runId, promptName: name });
+        try {
+            const result = await this.request('prompts/get', { name, arguments: args });
+            const messages: PromptMessage[] = result?.messages ?? [];
+            this.rememberToolRun(runId, messages.map(message => message.content));
+            panel.sendMessage({ command: 'promptResult', result: renderPromptResult(runId, name, result?.description, messages) });
+            panel.logToTerminal(`✅ Prompt returned ${messages.length} message(s)`, 'success');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            panel.logToTerminal(`❌ Failed to get prompt: ${message}`, 'error');
+            panel.sendMessage({ command: 'promptResult', result: { runId, promptName: name, messages: [], error: message } });
+        }
+    }
 
-            req.on('error', (error) => {
-                panel.logToTerminal(`❌ Request error: ${error.message}`, 'error');
-                panel.logToTerminal('💡 Make sure MCP server is running at 127.0.0.1:31338', 'info');
-                
-                panel.sendMessage({
-                    command: 'updateTools',
-                    tools: [],
-                    error: `${error.name}: ${error.message}`
-                });
-                
-                reject(error);
-            });
+    /**
+     * Sends a JSON-RPC request over the shared session, performing the
+     * initialize handshake first if needed. If the server has expired the
+     * session, the handshake is repeated once and the request retried.
+     */
+    public async request(method: string, params: any = {}, timeoutMs?: number, signal?: AbortSignal): Promise<any> {
+        try {
+            await this.ensureSession();
+            return await this.sendRequest(method, params, timeoutMs, signal);
+        } catch (error) {
+            if (!await this.canRetry(error)) {
+                throw error;
+            }
+            this.resetSession();
+            await this.ensureSession();
+            return this.sendRequest(method, params, timeoutMs, signal);
+        }
+    }
 
-            req.on('timeout', () => {
-                panel.logToTerminal(`❌ Request timed out`, 'error');
-                req.destroy();
-                
-                panel.sendMessage({
-                    command: 'updateTools',
-                    tools: [],
-                    error: 'Request timed out'
-                });
-                
-                reject(new Error('Request timed out'));
-            });
+    /**
+     * A request is retried once when the server dropped the session (404) or
+     * rejected an OAuth token that could be refreshed (401).
+     */
+    private async canRetry(error: unknown): Promise<boolean> {
+        if (!(error instanceof McpHttpError)) {
+            return false;
+        }
+        if (error.statusCode === 404) {
+            return this.sessionId !== undefined;
+        }
+        if (error.statusCode !== 401) {
+            return false;
+        }
+        if (await McpAuth.getInstance().refresh(this.getTargetFolder())) {
+            return true;
+        }
+        WizardPanel.getInstance().logToTerminal('💡 The MCP server needs a valid token; run "Bluetext: Set MCP Server Token"', 'info');
+        return false;
+    }
 
-            req.setTimeout(10000);
+    public async notify(method: string, params?: any): Promise<void> {
+        await this.ensureSession();
+        await this.post({ jsonrpc: '2.0', method, params }, 10000);
+    }
 
-            const body = JSON.stringify({
-                jsonrpc: '2.0',
-                id: 1,
-                method: 'tools/list',
-                params: {}
+    private async ensureSession(): Promise<void> {
+        if (this.protocolVersion) {
+            return;
+        }
+        if (!this.initializing) {
+            this.initializing = this.initialize().finally(() => {
+                this.initializing = undefined;
             });
+        }
+        return this.initializing;
+    }
 
-            panel.logToTerminal(`📤 Sending request: ${body}`, 'info');
-            
-            try {
-                req.write(body);
-                req.end();
-                panel.logToTerminal(`✓ Request sent, waiting for response...`, 'info');
-            } catch (error) {
-                panel.logToTerminal(`❌ Failed to send request: ${error}`, 'error');
-                reject(error);
+    private async initialize(): Promise<void> {
+        const result = await this.sendRequest('initialize', {
+            protocolVersion: LATEST_PROTOCOL_VERSION,
+            capabilities: {
+                roots: { listChanged: true },
+                // Sampling runs on the editor's language models, which older editors lack
+                ...(vscode.lm ? { sampling: {} } : {}),
+                elicitation: {}
+            },
+            clientInfo: {
+                name: 'bluetext-setup',
+                version: vscode.extensions.getExtension('bluetext.bluetext-setup')?.packageJSON.version ?? '1.0.0'
             }
+        }, 10000);
+
+        if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result?.protocolVersion)) {
+            this.resetSession();
+            throw new Error(`Unsupported MCP protocol version: ${result?.protocolVersion}`);
+        }
+        this.protocolVersion = result.protocolVersion;
+        this.serverCapabilities = result.capabilities ?? {};
+        this.serverName = result.serverInfo?.name;
+
+        await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' }, 10000);
+
+        WizardPanel.getInstance().logToTerminal(
+            `✓ Initialized session with ${this.serverName ?? 'MCP server'} (protocol ${this.protocolVersion})`,
+            'success'
+        );
+        this.openEventStream().catch(() => undefined);
+        this.sendLogLevel();
+    }
+
+    private resetSession(): void {
+        this.sessionId = undefined;
+        this.protocolVersion = undefined;
+        this.serverCapabilities = undefined;
+        this.serverName = undefined;
+        this.eventStream?.destroy();
+        this.eventStream = undefined;
+    }
+
+    /**
+     * Asks the server for log messages at the level of the "Bluetext MCP Log"
+     * channel. Does nothing until a session with a logging server exists.
+     */
+    public sendLogLevel(): void {
+        if (!this.protocolVersion || !this.serverCapabilities?.logging) {
+            return;
+        }
+        this.sendRequest('logging/setLevel', { level: getMcpLogLevel() }, 10000).catch(error => {
+            WizardPanel.getInstance().logToTerminal(`⚠️  Could not set the server's log level: ${error instanceof Error ? error.message : error}`, 'error');
         });
     }
 
-    public async executeTool(toolName: string, toolSchema: any, parameters?: any): Promise<void> {
-        const panel = WizardPanel.getInstance();
-        const config = vscode.workspace.getConfiguration('bluetext');
-        const mcpPort = config.get<number>('mcpPort', 31338);
-        
-        panel.logToTerminal(`▶ Running tool: ${toolName}`, 'command');
-        
-        // Use provided parameters or empty object
-        const args = parameters || {};
-        
-        // Log parameters if they exist
-        if (parameters && Object.keys(parameters).length > 0) {
-            panel.logToTerminal(`Parameters: ${JSON.stringify(parameters, null, 2)}`, 'info');
+    /**
+     * Tells the server the workspace folders changed, so it asks for roots again.
+     */
+    public notifyRootsChanged(): void {
+        if (this.protocolVersion) {
+            this.notify('notifications/roots/list_changed').catch(() => undefined);
         }
-        
-        return new Promise<void>((resolve, reject) => {
-            const options = {
-                hostname: '127.0.0.1',
-                port: mcpPort,
-                path: '/mcp',
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
+    }
+
+    /**
+     * Opens the GET event stream servers use for messages that aren't part of
+     * a request. Servers without one answer 405. A stream the server closes is
+     * reopened while the session lasts; one that can't connect is left closed.
+     */
+    private async openEventStream(): Promise<void> {
+        const sessionId = this.sessionId;
+        const folder = this.getTargetFolder();
+        const endpoint = getMcpEndpoint(folder);
+        const headers = this.getSessionHeaders(await McpAuth.getInstance().getHeaders(folder), {});
+        if (this.sessionId !== sessionId) {
+            return;
+        }
+        headers['Accept'] = 'text/event-stream';
+        const req = (endpoint.secure ? https : http).request({
+            hostname: endpoint.host,
+            port: endpoint.port,
+            path: endpoint.path,
+            method: 'GET',
+            headers
+        }, (res) => {
+            const contentType = String(res.headers['content-type'] || '');
+            if (res.statusCode !== 200 || !contentType.includes('text/event-stream')) {
+                res.resume();
+                return;
+            }
+            res.setEncoding('utf8');
+            const parser = new SseParser((event, data) => {
+                if (event !== 'message') {
+                    return;
+                }
+                try {
+                    const payload = JSON.parse(data);
+                    (Array.isArray(payload) ? payload : [payload]).forEach(message => this.handleServerMessage(message));
+                } catch (error) {
+                    WizardPanel.getInstance().logToTerminal(`⚠️  Invalid JSON in the server's event stream: ${error}`, 'error');
+                }
+            });
+            res.on('data', (chunk) => parser.push(chunk));
+            res.on('end', () => {
+                parser.end();
+                setTimeout(() => {
+                    if (this.eventStream === req && this.sessionId === sessionId) {
+                        this.openEventStream().catch(() => undefined);
+                    }
+                }, EVENT_STREAM_RETRY_MS);
+            });
+        });
+        req.on('error', () => {
+            if (this.eventStream === req) {
+                this.eventStream = undefined;
+            }
+        });
+        req.end();
+        this.eventStream = req;
+    }
+
+    private async sendRequest(method: string, params: any, timeoutMs?: number, signal?: AbortSignal): Promise<any> {
+        const id = this.nextRequestId++;
+        let messages: JsonRpcMessage[];
+        try {
+            messages = await this.post({ jsonrpc: '2.0', id, method, params }, timeoutMs, id, signal);
+        } catch (error) {
+            // The server may still be working on it. initialize must never be cancelled.
+            if (error instanceof McpCancelledError && method !== 'initialize') {
+                this.notify('notifications/cancelled', { requestId: id, reason: error.message }).catch(() => undefined);
+            }
+            throw error;
+        }
+        const response = messages.find(message => message.id === id && message.method === undefined);
+
+        if (!response) {
+            throw new Error(`No response received for ${method}`);
+        }
+        if (response.error) {
+            throw new McpRpcError(response.error.code, response.error.message);
+        }
+        return response.result;
+    }
+
+    /**
+     * POSTs a single JSON-RPC message and collects every message the server
+     * returns, whether as a plain JSON body or framed as server-sent events.
+     * When `awaitId` is given, resolves as soon as the matching response arrives.
+     * Notifications in the stream are handled as they come in.
+     */
+    private async post(message: JsonRpcMessage, timeoutMs?: number, awaitId?: number, signal?: AbortSignal): Promise<JsonRpcMessage[]> {
+        const folder = this.getTargetFolder();
+        const endpoint = getMcpEndpoint(folder);
+        const headers = this.getSessionHeaders(await McpAuth.getInstance().getHeaders(folder), {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json, text/event-stream'
+        });
+
+        return new Promise<JsonRpcMessage[]>((resolve, reject) => {
+            const received: JsonRpcMessage[] = [];
+            let settled = false;
+            const abort = () => {
+                req.destroy();
+                settle(new McpCancelledError('Request cancelled'));
+            };
+            const settle = (error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                signal?.removeEventListener('abort', abort);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(received);
                 }
             };
 
-            const req = http.request(options, (res) => {
-                let data = '';
+            const collect = (payload: any) => {
+                for (const item of Array.isArray(payload) ? payload : [payload]) {
+                    received.push(item);
+                    if (item.method !== undefined) {
+                        this.handleServerMessage(item);
+                    }
+                    if (awaitId !== undefined && item.id === awaitId && item.method === undefined) {
+                        settle();
+                    }
+                }
+            };
 
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
+            const req = (endpoint.secure ? https : http).request({
+                hostname: endpoint.host,
+                port: endpoint.port,
+                path: endpoint.path,
+                method: 'POST',
+                headers
+            }, (res) => {
+                const sessionHeader = res.headers['mcp-session-id'];
+                if (typeof sessionHeader === 'string' && sessionHeader) {
+                    this.sessionId = sessionHeader;
+                }
+
+                const status = res.statusCode ?? 0;
+                const contentType = String(res.headers['content-type'] || '');
+                res.setEncoding('utf8');
+
+                if (status < 200 || status >= 300) {
+                    let body = '';
+                    res.on('data', (chunk) => { body += chunk; });
+                    res.on('end', () => settle(new McpHttpError(status, body.trim())));
+                    return;
+                }
 
-                res.on('end', () => {
-                    try {
-                        const response = JSON.parse(data.trim());
-                        
-                        if (response.error) {
-                            panel.logToTerminal(`❌ Tool execution failed: ${response.error.message}`, 'error');
-                            reject(new Error(response.error.message));
-                        } else {
-                            panel.logToTerminal(`✅ Tool executed successfully!`, 'success');
-                            
-                            if (response.result) {
-                                const resultStr = JSON.stringify(response.result, null, 2);
-                                panel.logToTerminal(`Result: ${resultStr}`, 'info');
+                if (contentType.includes('text/event-stream')) {
+                    const parser = new SseParser((event, data) => {
+                        if (event !== 'message') {
+                            return;
+                        }
+                        try {
+                            collect(JSON.parse(data));
+                        } catch (error) {
+                            settle(new Error(`Invalid JSON in event stream: ${error}`));
+                        }
+                    });
+                    res.on('data', (chunk) => parser.push(chunk));
+                    res.on('end', () => {
+                        parser.end();
+                        settle();
+                    });
+                } else {
+                    let body = '';
+                    res.on('data', (chunk) => { body += chunk; });
+                    res.on('end', () => {
+                        const trimmed = body.trim();
+                        if (trimmed) {
+                            try {
+                                collect(JSON.parse(trimmed));
+                            } catch (error) {
+                                settle(new Error(`Failed to parse response: ${error}`));
+                                return;
                             }
-                            
-                            resolve();
                         }
-                    } catch (error) {
-                        panel.logToTerminal(`Failed to parse tool response: ${error}`, 'error');
-                        reject(error);
-                    }
-                });
-            });
+                        settle();
+                    });
+                }
 
-            req.on('error', (error) => {
-                panel.logToTerminal(`❌ Tool execution error: ${error.message}`, 'error');
-                reject(error);
+                res.on('error', (error) => settle(error));
             });
 
-            const body = JSON.stringify({
-                jsonrpc: '2.0',
-                id: 2,
-                method: 'tools/call',
-                params: {
-                    name: toolName,
-                    arguments: args
-                }
-            });
+            req.on('error', (error) => settle(error));
+
+            if (timeoutMs !== undefined) {
+                req.setTimeout(timeoutMs, () => {
+                    req.destroy();
+                    settle(new McpCancelledError('Request timed out'));
+                });
+            }
+            if (signal?.aborted) {
+                abort();
+                return;
+            }
+            signal?.addEventListener('abort', abort);
 
-            req.write(body);
+            req.write(JSON.stringify(message));
             req.end();
         });
     }
+
+    // Configured and auth headers come first, so they can't replace the protocol's own
+    private getSessionHeaders(authHeaders: Record<string, string>, protocolHeaders: http.OutgoingHttpHeaders): http.OutgoingHttpHeaders {
+        const headers: http.OutgoingHttpHeaders = { ...authHeaders, ...protocolHeaders };
+        if (this.sessionId) {
+            headers['Mcp-Session-Id'] = this.sessionId;
+        }
+        if (this.protocolVersion) {
+            headers['MCP-Protocol-Version'] = this.protocolVersion;
+        }
+        return headers;
+    }
+
+    /**
+     * Handles what the server sends on its own, whether on the GET stream or
+     * while answering one of our requests.
+     */
+    private handleServerMessage(message: JsonRpcMessage): void {
+        if (message.id !== undefined) {
+            this.answerServerRequest(message);
+            return;
+        }
+        switch (message.method) {
+            case 'notifications/progress': {
+                const { progressToken, progress, total, message: text } = message.params ?? {};
+                const run = this.activeToolRuns.get(progressToken);
+                if (!run || typeof progress !== 'number') {
+                    return;
+                }
+                const update: ToolProgress = { progress, total: typeof total === 'number' ? total : undefined, message: text };
+                run.onProgress?.(update);
+                WizardPanel.getInstance().sendMessage({ command: 'toolProgress', runId: progressToken, ...update });
+                return;
+            }
+            case 'notifications/message':
+                logServerMessage(message.params);
+                return;
+            case 'notifications/tools/list_changed':
+                // Failures are reported by fetchTools itself
+                this.fetchTools().catch(() => undefined);
+                return;
+        }
+    }
+
+    private async answerServerRequest(request: JsonRpcMessage): Promise<void> {
+        let response: JsonRpcMessage;
+        try {
+            const result = await this.handleServerRequest(request.method ?? '', request.params);
+            response = { jsonrpc: '2.0', id: request.id, result };
+        } catch (error) {
+            response = {
+                jsonrpc: '2.0',
+                id: request.id,
+                error: error instanceof McpRpcError
+                    ? { code: error.code, message: error.message }
+                    : { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) }
+            };
+        }
+
+        try {
+            await this.post(response, 10000);
+        } catch (error) {
+            WizardPanel.getInstance().logToTerminal(`⚠️  Could not answer the server's ${request.method} request: ${error instanceof Error ? error.message : error}`, 'error');
+        }
+    }
+
+    /**
+     * Requests the server may send us. Sampling and elicitation both ask the
+     * user first.
+     */
+    private async handleServerRequest(method: string, params: any): Promise<any> {
+        switch (method) {
+            case 'ping':
+                return {};
+            case 'roots/list':
+                return {
+                    roots: getWorkspaceFolders().map(folder => ({ uri: folder.uri.toString(), name: folder.name }))
+                };
+            case 'sampling/createMessage':
+                return createSamplingMessage(this.serverName ?? 'The MCP server', params);
+            case 'elicitation/create':
+                return askForElicitation(this.serverName ?? 'The MCP server', params);
+            default:
+                throw new McpRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+        }
+    }
+
+    /**
+     * Follows `nextCursor` through a paginated list method and returns all items.
+     */
+    private async listAll(method: string, key: string): Promise<any[]> {
+        const items: any[] = [];
+        let cursor: string | undefined;
+        for (let page = 0; page < MAX_LIST_PAGES; page++) {
+            const result = await this.request(method, cursor ? { cursor } : {}, 10000);
+            items.push(...(result?.[key] ?? []));
+            cursor = result?.nextCursor;
+            if (!cursor) {
+                break;
+            }
+        }
+        return items;
+    }
+
+    private rememberToolRun(runId: number, content: ToolContent[], rendered?: RenderedToolResult): void {
+        this.toolRuns.set(runId, { content, rendered });
+        for (const oldRunId of this.toolRuns.keys()) {
+            if (this.toolRuns.size <= MAX_KEPT_TOOL_RUNS) {
+                break;
+            }
+            this.toolRuns.delete(oldRunId);
+        }
+        if (rendered) {
+            this.changeEmitter.fire();
+        }
+    }
+
+    private async saveArguments(toolName: string, args: any): Promise<void> {
+        if (!this.argumentStorage) {
+            return;
+        }
+        await this.argumentStorage.update(TOOL_ARGUMENTS_KEY, { ...this.getSavedArguments(), [toolName]: args });
+    }
+
+    private getEndpointLabel(): string {
+        return describeMcpEndpoint(this.getTargetFolder());
+    }
 }
@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import { McpService } from './mcpService';
+import { McpServerManager, ServerState } from './serverManager';
+import { WizardPanel } from './wizardPanel';
+import { describeMcpEndpoint } from './settings';
+import { RenderedToolResult } from './toolResults';
+
+export type McpTreeNode =
+    | { kind: 'server'; folder: vscode.WorkspaceFolder | undefined }
+    | { kind: 'tools' }
+    | { kind: 'toolGroup'; name: string; tools: any[] }
+    | { kind: 'tool'; tool: any }
+    | { kind: 'runs' }
+    | { kind: 'run'; run: RenderedToolResult }
+    | { kind: 'message'; label: string; icon: string };
+
+const SERVER_STATE_LABELS: Record<ServerState, string> = {
+    stopped: 'Stopped',
+    starting: 'Starting…',
+    running: 'Running',
+    stopping: 'Stopping…'
+};
+
+/**
+ * The "Bluetext" activity bar view: the status of the targeted MCP server,
+ * its tools grouped by category or name prefix, and the recent tool runs.
+ */
+export class McpTreeProvider implements vscode.TreeDataProvider<McpTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<McpTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private fetching = false;
+
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    public fetchTools(): void {
+        if (this.fetching) {
+            return;
+        }
+        this.fetching = true;
+        // Failures are shown in the tree through getToolsError
+        McpService.getInstance().fetchTools()
+            .catch(() => undefined)
+            .finally(() => {
+                this.fetching = false;
+            });
+    }
+
+    public getTreeItem(node: McpTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'server':
+                return this.getServerItem(node.folder);
+            case 'tools': {
+                const tools = McpService.getInstance().getTools();
+                const item = new vscode.TreeItem('Tools', vscode.TreeItemCollapsibleState.Expanded);
+                item.description = tools ? `${tools.length}` : undefined;
+                item.iconPath = new vscode.ThemeIcon('tools');
+                return item;
+            }
+            case 'toolGroup': {
+                const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = `${node.tools.length}`;
+                item.iconPath = new vscode.ThemeIcon('folder');
+                return item;
+            }
+            case 'tool': {
+                const item = new vscode.TreeItem(node.tool.name, vscode.TreeItemCollapsibleState.None);
+                item.description = node.tool.title;
+                item.tooltip = new vscode.MarkdownString(`**${node.tool.name}**\n\n${node.tool.description ?? ''}`);
+                item.iconPath = new vscode.ThemeIcon('symbol-method');
+                item.contextValue = 'tool';
+                return item;
+            }
+            case 'runs': {
+                const runs = McpService.getInstance().getRecentRuns();
+                const item = new vscode.TreeItem('Recent Runs', runs.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = runs.length > 0 ? `${runs.length}` : undefined;
+                item.iconPath = new vscode.ThemeIcon('history');
+                return item;
+            }
+            case 'run': {
+                const { run } = node;
+                const item = new vscode.TreeItem(run.toolName, vscode.TreeItemCollapsibleState.None);
+                const seconds = `${(run.durationMs / 1000).toFixed(1)}s`;
+                item.description = run.cancelled ? 'cancelled' : run.error ? 'call failed' : run.status === 'error' ? `error · ${seconds}` : seconds;
+                item.tooltip = run.cancelled ? `Cancelled after ${seconds}` : run.error ?? (run.status === 'error' ? 'The tool reported an error' : `Completed in ${seconds}`);
+                item.iconPath = run.cancelled
+                    ? new vscode.ThemeIcon('circle-slash')
+                    : run.status === 'error'
+                        ? new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+                        : new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+                item.command = { command: 'bluetext.showToolRun', title: 'Show Result', arguments: [node] };
+                return item;
+            }
+            case 'message': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon(node.icon);
+                return item;
+            }
+        }
+    }
+
+    public async getChildren(node?: McpTreeNode): Promise<McpTreeNode[]> {
+        const service = McpService.getInstance();
+        if (!node) {
+            return [{ kind: 'server', folder: service.getTargetFolder() }, { kind: 'tools' }, { kind: 'runs' }];
+        }
+        switch (node.kind) {
+            case 'tools':
+                return this.getToolNodes();
+            case 'toolGroup':
+                return node.tools.map(tool => ({ kind: 'tool', tool }));
+            case 'runs': {
+                const runs = service.getRecentRuns();
+                if (runs.length === 0) {
+                    return [{ kind: 'message', label: 'No tools run yet', icon: 'info' }];
+                }
+                return runs.map(run => ({ kind: 'run', run }));
+            }
+            default:
+                return [];
+        }
+    }
+
+    private getServerItem(folder: vscode.WorkspaceFolder | undefined): vscode.TreeItem {
+        const item = new vscode.TreeItem('MCP Server', vscode.TreeItemCollapsibleState.None);
+        if (!folder) {
+            item.description = 'No folder open';
+            item.iconPath = new vscode.ThemeIcon('circle-slash');
+            return item;
+        }
+
+        const service = McpService.getInstance();
+        const state = McpServerManager.forFolder(folder).getState();
+        // A server started outside VS Code is only known from answering tools/list
+        const external = state === 'stopped' && service.getTools() !== undefined && !service.getToolsError();
+        const health = service.getHealthState();
+        const problem = health === 'down' ? ' · Not responding' : health === 'degraded' ? ' · Degraded' : '';
+        item.description = `${external ? 'Connected' : SERVER_STATE_LABELS[state]}${problem} · ${describeMcpEndpoint(folder)}`;
+        item.tooltip = `${folder.name}: ${item.description}`;
+        item.iconPath = state === 'running' || external
+            ? new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('testing.iconPassed'))
+            : state === 'stopped'
+                ? new vscode.ThemeIcon('circle-outline')
+                : new vscode.ThemeIcon('loading~spin');
+        item.contextValue = state === 'running' ? 'server-running' : state === 'stopped' && !external ? 'server-stopped' : 'server-busy';
+        item.command = { command: 'bluetext.showServerOutput', title: 'Show MCP Server Output' };
+        return item;
+    }
+
+    private async getToolNodes(): Promise<McpTreeNode[]> {
+        const service = McpService.getInstance();
+        const tools = service.getTools();
+        if (!tools) {
+            const error = service.getToolsError();
+            if (error) {
+                return [{ kind: 'message', label: `Could not load tools: ${error}`, icon: 'warning' }];
+            }
+            if (await this.isServerReachable()) {
+                this.fetchTools();
+                return [{ kind: 'message', label: 'Loading tools…', icon: 'loading~spin' }];
+            }
+            return [{ kind: 'message', label: 'Start the MCP server to see its tools', icon: 'info' }];
+        }
+        if (tools.length === 0) {
+            return [{ kind: 'message', label: 'The server offers no tools', icon: 'info' }];
+        }
+        return groupTools(tools);
+    }
+
+    private async isServerReachable(): Promise<boolean> {
+        const folder = McpService.getInstance().getTargetFolder();
+        if (!folder) {
+            return false;
+        }
+        return McpServerManager.forFolder(folder).getState() === 'running' || McpServerManager.isEndpointOpen(folder);
+    }
+
+}
+
+/**
+ * Registers the activity bar view and the commands its items use.
+ */
+export function registerMcpTreeView(context: vscode.ExtensionContext): McpTreeProvider {
+    const provider = new McpTreeProvider();
+    const service = McpService.getInstance();
+
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('bluetext.mcpExplorer', provider),
+        service.onDidChange(() => provider.refresh()),
+        McpServerManager.onDidChangeState(({ folder, state }) => {
+            // Load the tools as soon as the targeted server is up
+            if (state === 'running' && service.getTargetFolder()?.uri.toString() === folder.uri.toString()) {
+                provider.fetchTools();
+            }
+            provider.refresh();
+        }),
+        vscode.commands.registerCommand('bluetext.refreshTools', () => {
+            provider.fetchTools();
+            provider.refresh();
+        }),
+        vscode.commands.registerCommand('bluetext.runTool', (node?: McpTreeNode) => node?.kind === 'tool' && runTool(node.tool, false)),
+        vscode.commands.registerCommand('bluetext.runToolWithArguments', (node?: McpTreeNode) => node?.kind === 'tool' && runTool(node.tool, true)),
+        vscode.commands.registerCommand('bluetext.showToolRun', (node?: McpTreeNode) => node?.kind === 'run' && showRun(node.run.runId))
+    );
+    return provider;
+}
+
+/**
+ * Tools sharing a category (`_meta.category`) or name prefix (`db_query`,
+ * `db.migrate`) are put in a folder; the rest stay at the top level.
+ */
+function groupTools(tools: any[]): McpTreeNode[] {
+    const groups = new Map<string, any[]>();
+    for (const tool of tools) {
+        const category = getToolCategory(tool) ?? '';
+        groups.set(category, [...(groups.get(category) ?? []), tool]);
+    }
+
+    const byName = (a: any, b: any) => a.name.localeCompare(b.name);
+    const folders: { name: string; tools: any[] }[] = [];
+    const loose: any[] = [];
+    for (const [name, members] of groups) {
+        if (name && members.length > 1) {
+            folders.push({ name, tools: members.sort(byName) });
+        } else {
+            loose.push(...members);
+        }
+    }
+
+    // One folder holding every tool adds a level without telling anything apart
+    if (folders.length === 1 && loose.length === 0) {
+        return folders[0].tools.map(tool => ({ kind: 'tool', tool }));
+    }
+    folders.sort((a, b) => a.name.localeCompare(b.name));
+    return [
+        ...folders.map((folder): McpTreeNode => ({ kind: 'toolGroup', ...folder })),
+        ...loose.sort(byName).map((tool): McpTreeNode => ({ kind: 'tool', tool }))
+    ];
+}
+
+function getToolCategory(tool: any): string | undefined {
+    const category = tool._meta?.category;
+    if (typeof category === 'string' && category) {
+        return category;
+    }
+    return /^([a-zA-Z0-9]+)[_.:/-]/.exec(tool.name)?.[1];
+}
+
+/**
+ * Runs a tool with the arguments it last ran with. Tools that still need
+ * required values, or a "Run with Arguments", open the wizard's form instead.
+ */
+async function runTool(tool: any, askForArguments: boolean): Promise<void> {
+    const service = McpService.getInstance();
+    const args = service.getSavedArguments()[tool.name] ?? {};
+    const properties = tool.inputSchema?.properties ?? {};
+    const required: string[] = tool.inputSchema?.required ?? [];
+    const missing = required.filter(name => args[name] === undefined && properties[name]?.default === undefined);
+
+    if (askForArguments || missing.length > 0) {
+        await openWizard();
+        WizardPanel.getInstance().sendMessage({ command: 'openToolForm', toolName: tool.name });
+        return;
+    }
+
+    try {
+        const result = await service.executeTool(tool.name, tool.inputSchema, args);
+        if (result.cancelled) {
+            return;
+        }
+        const seconds = (result.durationMs / 1000).toFixed(1);
+        const choice = result.status === 'error'
+            ? await vscode.window.showWarningMessage(`${tool.name} reported an error`, 'Show Result')
+            : await vscode.window.showInformationMessage(`${tool.name} completed in ${seconds}s`, 'Show Result');
+        if (choice === 'Show Result') {
+            await showRun(result.runId);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`${tool.name} failed: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+async function showRun(runId: number): Promise<void> {
+    await openWizard();
+    McpService.getInstance().showToolRun(runId);
+}
+
+async function openWizard(): Promise<void> {
+    await vscode.commands.executeCommand('bluetext.setupWizard');
+    McpService.getInstance().sendToolsToWizard();
+}
@@ -0,0 +1,244 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Document, isMap, isPair, isScalar, isSeq, parseDocument, Node, YAMLSeq } from 'yaml';
+import { JsonSchema, validateSchema } from './jsonSchema';
+
+export const POLYTOPE_FILE_NAME = 'polytope.yml';
+export const BLUETEXT_REPO = 'gh:bluetext-io/bluetext';
+
+/**
+ * Shape of polytope.yml as far as this extension understands it. Unknown
+ * top-level keys are reported so typos like `includes:` don't go unnoticed,
+ * while the inside of templates and modules is left to Polytope itself.
+ */
+const POLYTOPE_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        include: {
+            type: 'array',
+            description: 'Repositories or files whose templates and modules are pulled in',
+            items: {
+                anyOf: [
+                    { type: 'string', minLength: 1 },
+                    {
+                        type: 'object',
+                        required: ['repo'],
+                        properties: {
+                            repo: { type: 'string', pattern: '^[a-z]+:' }
+                        }
+                    }
+                ]
+            }
+        },
+        templates: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', minLength: 1 },
+                    run: { type: 'array' }
+                }
+            }
+        },
+        modules: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', minLength: 1 }
+                }
+            }
+        },
+        values: { type: 'array' },
+        secrets: { type: 'array' }
+    }
+};
+
+export interface PolytopeProblem {
+    message: string;
+    /** Character offsets into the file */
+    start: number;
+    end: number;
+    severity: 'error' | 'warning';
+}
+
+export interface IncludeMergeResult {
+    content: string;
+    changed: boolean;
+    /** Set when the existing file could not be parsed and was left alone */
+    error?: string;
+}
+
+export function getBluetextRepo(ref: string): string {
+    const trimmed = ref.trim();
+    return trimmed ? `${BLUETEXT_REPO}@${trimmed}` : BLUETEXT_REPO;
+}
+
+export function createPolytopeContent(ref: string): string {
+    const doc = new Document({ include: [{ repo: getBluetextRepo(ref) }] });
+    return toYaml(doc);
+}
+
+/**
+ * Adds the Bluetext include to an existing polytope.yml, or updates its ref,
+ * keeping every other key, include and comment as it was.
+ */
+export function mergeBluetextInclude(existing: string, ref: string): IncludeMergeResult {
+    if (!existing.trim()) {
+        return { content: createPolytopeContent(ref), changed: true };
+    }
+
+    const doc = parseDocument(existing);
+    if (doc.errors.length > 0) {
+        return { content: existing, changed: false, error: doc.errors[0].message };
+    }
+    if (doc.contents !== null && !isMap(doc.contents)) {
+        return { content: existing, changed: false, error: 'Top level of polytope.yml must be a mapping' };
+    }
+
+    const wanted = getBluetextRepo(ref);
+    const include = doc.get('include', true);
+    if (include === undefined || include === null || (isScalar(include) && include.value === null)) {
+        doc.set('include', doc.createNode([{ repo: wanted }]));
+        return { content: toYaml(doc), changed: true };
+    }
+    if (!isSeq(include)) {
+        return { content: existing, changed: false, error: '"include" must be a list' };
+    }
+
+    const seq = include as YAMLSeq;
+    for (let index = 0; index < seq.items.length; index++) {
+        const item = seq.items[index];
+        const repo = getIncludeRepo(item);
+        if (repo === undefined || !isBluetextRepo(repo)) {
+            continue;
+        }
+        if (repo === wanted) {
+            return { content: existing, changed: false };
+        }
+        if (isMap(item)) {
+            item.set('repo', wanted);
+        } else {
+            seq.set(index, doc.createNode(wanted));
+        }
+        return { content: toYaml(doc), changed: true };
+    }
+
+    seq.add(doc.createNode({ repo: wanted }));
+    return { content: toYaml(doc), changed: true };
+}
+
+export function hasBluetextInclude(content: string): boolean {
+    const doc = parseDocument(content);
+    const include = doc.errors.length === 0 ? doc.get('include', true) : undefined;
+    return isSeq(include) && include.items.some(item => {
+        const repo = getIncludeRepo(item);
+        return repo !== undefined && isBluetextRepo(repo);
+    });
+}
+
+/**
+ * Parses the file and checks it against the Polytope schema, returning
+ * problems with offsets so callers can map them onto a document.
+ */
+export function validatePolytopeYml(content: string): PolytopeProblem[] {
+    const doc = parseDocument(content);
+    const problems: PolytopeProblem[] = [];
+
+    for (const error of doc.errors) {
+        problems.push({ message: error.message, start: error.pos[0], end: error.pos[1], severity: 'error' });
+    }
+    if (doc.errors.length > 0) {
+        return problems;
+    }
+
+    const value = doc.toJS() ?? {};
+    for (const error of validateSchema(value, POLYTOPE_SCHEMA)) {
+        const range = findRange(doc, error.path, error.isKey === true);
+        problems.push({
+            message: error.message,
+            start: range[0],
+            end: range[1],
+            severity: error.isKey ? 'warning' : 'error'
+        });
+    }
+    return problems;
+}
+
+export function isPolytopeYml(uri: vscode.Uri): boolean {
+    return path.basename(uri.fsPath) === POLYTOPE_FILE_NAME;
+}
+
+/**
+ * Keeps the Problems panel in sync with every open polytope.yml.
+ */
+export function registerPolytopeDiagnostics(context: vscode.ExtensionContext): void {
+    const diagnostics = vscode.languages.createDiagnosticCollection('polytope');
+
+    const refresh = (document: vscode.TextDocument) => {
+        if (!isPolytopeYml(document.uri)) {
+            return;
+        }
+        const problems = validatePolytopeYml(document.getText());
+        diagnostics.set(document.uri, problems.map(problem => {
+            const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'polytope';
+            return diagnostic;
+        }));
+    };
+
+    vscode.workspace.textDocuments.forEach(refresh);
+    context.subscriptions.push(
+        diagnostics,
+        vscode.workspace.onDidOpenTextDocument(refresh),
+        vscode.workspace.onDidChangeTextDocument(event => refresh(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri))
+    );
+}
+
+function toYaml(doc: Document): string {
+    // Keep flow collections like `run: [api]` formatted the way users write them
+    return doc.toString({ flowCollectionPadding: false });
+}
+
+function getIncludeRepo(item: unknown): string | undefined {
+    if (isScalar(item) && typeof item.value === 'string') {
+        return item.value;
+    }
+    if (isMap(item)) {
+        const repo = item.get('repo');
+        return typeof repo === 'string' ? repo : undefined;
+    }
+    return undefined;
+}
+
+function isBluetextRepo(repo: string): boolean {
+    return repo === BLUETEXT_REPO || repo.startsWith(`${BLUETEXT_REPO}@`);
+}
+
+function findRange(doc: Document, errorPath: (string | number)[], isKey: boolean): [number, number] {
+    if (isKey && errorPath.length > 0) {
+        const parent = errorPath.length === 1 ? doc.contents : doc.getIn(errorPath.slice(0, -1), true);
+        if (isMap(parent)) {
+            const pair = parent.items.find(item => isPair(item) && isScalar(item.key) && item.key.value === errorPath[errorPath.length - 1]);
+            const key = pair?.key as Node | undefined;
+            if (key?.range) {
+                return [key.range[0], key.range[1]];
+            }
+        }
+    }
+
+    const node = (errorPath.length === 0 ? doc.contents : doc.getIn(errorPath, true)) as Node | null | undefined;
+    if (node?.range) {
+        return [node.range[0], node.range[1]];
+    }
+    return [0, 0];
+}
@@ -0,0 +1,445 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WizardPanel } from './wizardPanel';
+import { McpServerManager } from './serverManager';
+import { FileWriter } from './fileWriter';
+import { DiagnosticsService } from './diagnostics';
+import { configureAgent, createPolytopeYml, getAgentContext, initGit, startMCP } from './commands';
+import { AgentAdapter, getAgent, getAgents } from './agents';
+import { getBluetextRepo, hasBluetextInclude, mergeBluetextInclude, POLYTOPE_FILE_NAME } from './polytopeYml';
+import { describeMcpEndpoint, getMcpPort, getMcpUrl, getServerCommand, getSettings, isRemoteEndpoint } from './settings';
+import { resolveTargetFolders } from './workspaceFolders';
+
+/** What a step is run against */
+export interface StepContext {
+    folder: vscode.WorkspaceFolder;
+    /** The agent chosen in the wizard; undefined when only detecting finished steps */
+    agent?: AgentAdapter;
+    /** Whether the user ran the step on its own, so changes may be previewed first */
+    interactive: boolean;
+}
+
+/**
+ * One step of the Quick Start. A run checks whether the step is done
+ * already, applies it if not and verifies the result; a dry run lists what
+ * apply would change instead.
+ */
+export interface QuickStartStep {
+    id: string;
+    /** `{endpoint}` is replaced by the folder's server address */
+    title: string;
+    completedTitle: string;
+    /** `{agent}` is replaced by the name of the agent chosen in the wizard */
+    buttonLabel: string;
+    completedButtonLabel: string;
+    icon: string;
+    /** Runs once for all folders rather than once per folder; Resume never starts at it */
+    runsOnce?: boolean;
+    /** Stops the run for the folder when the step fails, since later steps need it */
+    haltOnFailure?: boolean;
+    /** The step's button stays disabled while the step is done */
+    disableWhenDone?: boolean;
+    /** Whether the step is done already; steps without a check always run */
+    check?(context: StepContext): Promise<boolean>;
+    /** The changes apply would make, for dry runs */
+    plan(context: StepContext): Promise<string[]>;
+    /** Makes the change; false when it failed and the reason has been logged */
+    apply(context: StepContext): Promise<boolean>;
+    /** Whether the change took effect */
+    verify(context: StepContext): Promise<boolean>;
+}
+
+/** A step as the wizard renders it */
+export interface QuickStartStepInfo {
+    id: string;
+    title: string;
+    completedTitle: string;
+    buttonLabel: string;
+    completedButtonLabel: string;
+    disableWhenDone: boolean;
+}
+
+export interface QuickStartOptions {
+    /** List the changes without making any */
+    dryRun?: boolean;
+    /** Ids of steps to leave out */
+    skip?: string[];
+    /** Start each folder at the step that failed last time */
+    resume?: boolean;
+}
+
+const STEPS: QuickStartStep[] = [
+    {
+        id: 'prerequisites',
+        title: 'Check prerequisites (Polytope, Git, agents, port, write access)',
+        completedTitle: 'Prerequisites checked',
+        buttonLabel: 'Run Checks',
+        completedButtonLabel: 'Checked',
+        icon: '🩺',
+        // Missing prerequisites are reported, but whatever can be set up still is
+        runsOnce: true,
+        plan: async () => ['Check for Polytope, Git and the coding agents, and that each folder\'s port is free and writable'],
+        apply: async () => {
+            await DiagnosticsService.getInstance().run();
+            return true;
+        },
+        verify: async ({ folder }) => !DiagnosticsService.getInstance().getLastReport()?.checks
+            .some(check => check.status === 'error' && (!check.folder || check.folder === folder))
+    },
+    {
+        id: 'git',
+        title: 'Initialize git repository in your project',
+        completedTitle: 'Git repository initialized',
+        buttonLabel: 'Initialize',
+        completedButtonLabel: 'Done',
+        icon: '📦',
+        check: async ({ folder }) => hasGitRepository(folder),
+        plan: async ({ folder }) => [`Run git init in ${folder.uri.fsPath}`],
+        apply: ({ folder }) => initGit(folder),
+        verify: async ({ folder }) => hasGitRepository(folder)
+    },
+    {
+        id: 'polytope',
+        title: 'Create polytope.yml configuration file',
+        completedTitle: 'polytope.yml created successfully',
+        buttonLabel: 'Create File',
+        completedButtonLabel: 'Done',
+        icon: '📄',
+        haltOnFailure: true,
+        check: ({ folder }) => hasBluetextPolytopeYml(folder),
+        plan: ({ folder }) => planPolytopeYml(folder),
+        // Run on its own, changes to an existing file are previewed as a diff
+        apply: ({ folder, interactive }) => createPolytopeYml(!interactive, folder),
+        verify: ({ folder }) => hasBluetextPolytopeYml(folder)
+    },
+    {
+        id: 'agent',
+        title: 'Configure Agent',
+        completedTitle: 'Agent configured successfully',
+        buttonLabel: '{agent}',
+        completedButtonLabel: '{agent}',
+        icon: '⚙️',
+        check: async ({ folder, agent }) => agent ? isAgentConfigured(agent, folder) : hasAgentEntry(folder),
+        plan: async ({ folder, agent }) => {
+            const adapter = requireAgent(agent);
+            const context = await getAgentContext(adapter, folder);
+            const target = adapter.getConfigPath(folder) ?? `${adapter.displayName}'s configuration`;
+            return [`Write the ${context.serverName} server (${context.url}) to ${target}`];
+        },
+        apply: ({ folder, agent }) => configureAgent(requireAgent(agent).id, folder),
+        verify: async ({ folder, agent }) => isAgentConfigured(requireAgent(agent), folder)
+    },
+    {
+        id: 'server',
+        title: 'Start MCP server on {endpoint}',
+        completedTitle: 'MCP server started successfully',
+        buttonLabel: 'Start Server',
+        completedButtonLabel: 'Running',
+        icon: '⚡',
+        disableWhenDone: true,
+        check: async ({ folder }) => McpServerManager.forFolder(folder).getState() === 'running' || McpServerManager.isEndpointOpen(folder),
+        plan: async ({ folder }) => {
+            if (isRemoteEndpoint(folder)) {
+                return [`Connect to ${getMcpUrl(folder)}; no server is started`];
+            }
+            const { command, args } = getServerCommand(folder, getMcpPort(folder));
+            return [`Run ${[command, ...args].join(' ')} in ${folder.uri.fsPath}`];
+        },
+        apply: ({ folder }) => startMCP(folder),
+        verify: ({ folder }) => McpServerManager.isEndpointOpen(folder)
+    }
+];
+
+export function describeQuickStartSteps(): QuickStartStepInfo[] {
+    return STEPS.map(step => ({
+        id: step.id,
+        title: step.title,
+        completedTitle: step.completedTitle,
+        buttonLabel: step.buttonLabel,
+        completedButtonLabel: step.completedButtonLabel,
+        disableWhenDone: step.disableWhenDone ?? false
+    }));
+}
+
+/**
+ * Runs the steps in order for each folder. Steps already done are passed
+ * over, and a failed step only stops the folder's run when later steps need
+ * it. Everything a run writes is undone together by "Undo Last Setup".
+ */
+export async function runQuickStart(agentId: string, folders?: vscode.WorkspaceFolder[], options: QuickStartOptions = {}): Promise<void> {
+    const panel = WizardPanel.getInstance();
+    const agent = getAgent(agentId);
+    if (!agent) {
+        panel.logToTerminal(`Unknown agent: ${agentId}`, 'error');
+        return;
+    }
+    const targets = await resolveTargets(folders);
+    if (!targets) {
+        return;
+    }
+
+    // Each folder starts at its first step to run; undefined leaves the folder out
+    const skip = new Set(options.skip ?? []);
+    const starts = new Map<vscode.WorkspaceFolder, number | undefined>(targets.map(folder => [folder, options.resume ? findFailedStep(folder) : 0]));
+    if (options.resume) {
+        for (const [folder, start] of starts) {
+            if (start === undefined) {
+                panel.logToTerminal(`Nothing to resume in ${folder.name}: no step failed last time`, 'info');
+            }
+        }
+        if ([...starts.values()].every(start => start === undefined)) {
+            return;
+        }
+    }
+
+    const heading = options.dryRun ? 'Quick Setup (dry run)' : options.resume ? 'Resuming Quick Setup' : 'Starting Quick Setup';
+    panel.logToTerminal('='.repeat(50), 'info');
+    panel.logToTerminal(`${heading}...`, 'command');
+    panel.logToTerminal('='.repeat(50), 'info');
+
+    // The first step that failed in each folder, and the folders whose run stopped there
+    const failures = new Map<vscode.WorkspaceFolder, QuickStartStep>();
+    const halted = new Set<vscode.WorkspaceFolder>();
+    const recordFailure = (step: QuickStartStep, folders: vscode.WorkspaceFolder[]) => {
+        for (const folder of folders) {
+            if (!failures.has(folder) && panel.getStepStatus(step.id, folder) === 'error') {
+                failures.set(folder, step);
+            }
+        }
+    };
+
+    const run = async () => {
+        // Steps that run once go first, for every folder that gets that far
+        for (const [index, step] of STEPS.entries()) {
+            if (!step.runsOnce || skip.has(step.id)) {
+                continue;
+            }
+            const due = targets.filter(folder => starts.get(folder) !== undefined && starts.get(folder)! <= index);
+            if (due.length > 0 && !await runStep(step, due.map(folder => ({ folder, agent, interactive: false })), options.dryRun)) {
+                recordFailure(step, due);
+            }
+        }
+
+        for (const folder of targets) {
+            const start = starts.get(folder);
+            if (start === undefined) {
+                continue;
+            }
+            if (targets.length > 1) {
+                panel.logToTerminal(`\n📁 ${folder.name} (port ${getMcpPort(folder)})`, 'command');
+            }
+            for (const [index, step] of STEPS.entries()) {
+                if (step.runsOnce || index < start) {
+                    continue;
+                }
+                if (skip.has(step.id)) {
+                    panel.logToTerminal(`\n⏭️  ${formatStep(step, folder)}: skipped`, 'info');
+                    continue;
+                }
+                if (await runStep(step, [{ folder, agent, interactive: false }], options.dryRun)) {
+                    continue;
+                }
+                recordFailure(step, [folder]);
+                if (step.haltOnFailure) {
+                    panel.logToTerminal(`Stopped the setup of ${folder.name}: the remaining steps need "${formatTitle(step, folder)}"`, 'error');
+                    halted.add(folder);
+                    break;
+                }
+            }
+        }
+    };
+
+    if (options.dryRun) {
+        await run();
+        panel.logToTerminal('\n' + '='.repeat(50), 'info');
+        panel.logToTerminal('Dry run finished; nothing was changed', 'success');
+        panel.logToTerminal('='.repeat(50), 'info');
+        return;
+    }
+
+    await FileWriter.getInstance().runTransaction('Quick Start', run);
+
+    panel.logToTerminal('\n' + '='.repeat(50), 'info');
+    if (failures.size === 0) {
+        panel.logToTerminal('✅ Quick Setup Complete!', 'success');
+        panel.logToTerminal('='.repeat(50), 'info');
+        panel.logToTerminal('\nYou can now start using Bluetext tools with your coding agent!', 'info');
+    } else {
+        panel.logToTerminal('⚠️  Quick Setup did not finish', 'error');
+        panel.logToTerminal('='.repeat(50), 'info');
+        for (const [folder, step] of failures) {
+            const remaining = halted.has(folder) ? '; the steps after it were not run' : '';
+            panel.logToTerminal(`${targets.length > 1 ? `${folder.name}: ` : ''}"${formatTitle(step, folder)}" failed${remaining}`, 'error');
+        }
+        panel.logToTerminal('\nFix the problem above, then click Resume to continue from the failed step', 'info');
+    }
+    panel.logToTerminal('Run "Bluetext: Undo Last Setup" to restore the files this run changed', 'info');
+}
+
+/**
+ * Runs one step on its own, as the wizard's step buttons and Retry do. The
+ * step is applied even when its check says it is done.
+ */
+export async function runQuickStartStep(stepId: string, agentId: string, folders?: vscode.WorkspaceFolder[]): Promise<boolean> {
+    const panel = WizardPanel.getInstance();
+    const step = STEPS.find(candidate => candidate.id === stepId);
+    if (!step) {
+        panel.logToTerminal(`Unknown Quick Start step: ${stepId}`, 'error');
+        return false;
+    }
+    const agent = getAgent(agentId);
+    if (!agent) {
+        panel.logToTerminal(`Unknown agent: ${agentId}`, 'error');
+        return false;
+    }
+    const targets = await resolveTargets(folders);
+    if (!targets) {
+        return false;
+    }
+
+    const contexts = targets.map(folder => ({ folder, agent, interactive: true }));
+    if (step.runsOnce) {
+        return runStep(step, contexts, false, true);
+    }
+    let succeeded = true;
+    for (const context of contexts) {
+        succeeded = await runStep(step, [context], false, true) && succeeded;
+    }
+    return succeeded;
+}
+
+/**
+ * Whether each step with a check is done for the folder, as found on disk
+ * and by probing the server. Steps without a check aren't listed.
+ */
+export async function detectCompletedSteps(folder: vscode.WorkspaceFolder): Promise<Map<string, boolean>> {
+    const checked = STEPS.filter(step => step.check);
+    const done = await Promise.all(checked.map(step => step.check!({ folder, interactive: false }).catch(() => false)));
+    return new Map(checked.map((step, index) => [step.id, done[index]]));
+}
+
+/**
+ * Checks, applies and verifies one step for the given folders, which all
+ * share the step's status. Returns whether the step ended up done.
+ */
+async function runStep(step: QuickStartStep, contexts: StepContext[], dryRun: boolean = false, force: boolean = false): Promise<boolean> {
+    const panel = WizardPanel.getInstance();
+    const [first] = contexts;
+    panel.logToTerminal(`\n${step.icon} ${formatStep(step, first.folder)}...`, 'command');
+
+    const setStatus = (status: 'doing' | 'done' | 'error') => {
+        if (!dryRun) {
+            contexts.forEach(context => panel.updateStepStatus(step.id, status, context.folder));
+        }
+    };
+
+    try {
+        if (!force && step.check && await step.check(first)) {
+            panel.logToTerminal(dryRun ? 'Already done; nothing to change' : 'Already done, skipping...', 'info');
+            setStatus('done');
+            return true;
+        }
+        if (dryRun) {
+            const changes = await step.plan(first);
+            changes.forEach(change => panel.logToTerminal(`Would ${change.charAt(0).toLowerCase()}${change.slice(1)}`, 'info'));
+            if (changes.length === 0) {
+                panel.logToTerminal('Nothing to change', 'info');
+            }
+            return true;
+        }
+
+        setStatus('doing');
+        if (!await step.apply(first)) {
+            setStatus('error');
+            return false;
+        }
+        let succeeded = true;
+        for (const context of contexts) {
+            const verified = await step.verify(context);
+            panel.updateStepStatus(step.id, verified ? 'done' : 'error', context.folder);
+            if (!verified) {
+                panel.logToTerminal(`❌ "${formatTitle(step, context.folder)}" did not take effect${contexts.length > 1 ? ` in ${context.folder.name}` : ''}`, 'error');
+            }
+            succeeded = succeeded && verified;
+        }
+        return succeeded;
+    } catch (error) {
+        panel.logToTerminal(`❌ "${formatTitle(step, first.folder)}" failed: ${error instanceof Error ? error.message : error}`, 'error');
+        setStatus('error');
+        return false;
+    }
+}
+
+async function resolveTargets(folders: vscode.WorkspaceFolder[] | undefined): Promise<vscode.WorkspaceFolder[] | undefined> {
+    const panel = WizardPanel.getInstance();
+    const targets = folders ?? await resolveTargetFolders(undefined, true);
+    if (!targets) {
+        panel.logToTerminal('Operation cancelled', 'info');
+        return undefined;
+    }
+    if (targets.length === 0) {
+        const errorMsg = 'Please open a workspace folder first';
+        vscode.window.showErrorMessage(errorMsg);
+        panel.logToTerminal(errorMsg, 'error');
+        return undefined;
+    }
+    return targets;
+}
+
+// Steps that run once are advisory, like missing tools in the prerequisites,
+// so resuming starts at the first of the folder's own steps that failed
+function findFailedStep(folder: vscode.WorkspaceFolder): number | undefined {
+    const panel = WizardPanel.getInstance();
+    const index = STEPS.findIndex(step => !step.runsOnce && panel.getStepStatus(step.id, folder) === 'error');
+    return index === -1 ? undefined : index;
+}
+
+function formatStep(step: QuickStartStep, folder: vscode.WorkspaceFolder): string {
+    return `Step ${STEPS.indexOf(step)}/${STEPS.length - 1}: ${formatTitle(step, folder)}`;
+}
+
+function formatTitle(step: QuickStartStep, folder: vscode.WorkspaceFolder): string {
+    return step.title.split('{endpoint}').join(describeMcpEndpoint(folder));
+}
+
+function requireAgent(agent: AgentAdapter | undefined): AgentAdapter {
+    if (!agent) {
+        throw new Error('No coding agent was chosen');
+    }
+    return agent;
+}
+
+function hasGitRepository(folder: vscode.WorkspaceFolder): boolean {
+    return fs.existsSync(path.join(folder.uri.fsPath, '.git'));
+}
+
+async function hasBluetextPolytopeYml(folder: vscode.WorkspaceFolder): Promise<boolean> {
+    return fs.promises.readFile(path.join(folder.uri.fsPath, POLYTOPE_FILE_NAME), 'utf8').then(hasBluetextInclude, () => false);
+}
+
+async function planPolytopeYml(folder: vscode.WorkspaceFolder): Promise<string[]> {
+    const polytopeYmlPath = path.join(folder.uri.fsPath, POLYTOPE_FILE_NAME);
+    const repoRef = getSettings(folder).repoRef;
+    const existing = await fs.promises.readFile(polytopeYmlPath, 'utf8').catch(() => undefined);
+    if (existing === undefined) {
+        return [`Create ${polytopeYmlPath} including ${getBluetextRepo(repoRef)}`];
+    }
+    const merged = mergeBluetextInclude(existing, repoRef);
+    if (merged.error) {
+        return [`Fail, since ${polytopeYmlPath} can't be parsed: ${merged.error}`];
+    }
+    return merged.changed ? [`Add ${getBluetextRepo(repoRef)} to the includes in ${polytopeYmlPath}`] : [];
+}
+
+async function isAgentConfigured(agent: AgentAdapter, folder: vscode.WorkspaceFolder): Promise<boolean> {
+    return agent.verify(await getAgentContext(agent, folder));
+}
+
+// Without a chosen agent, any agent with a Bluetext entry counts
+async function hasAgentEntry(folder: vscode.WorkspaceFolder): Promise<boolean> {
+    const entries = await Promise.all(getAgents().map(adapter =>
+        getAgentContext(adapter, folder).then(context => adapter.readEntry(context)).catch(() => undefined)
+    ));
+    return entries.some(entry => entry !== undefined);
+}
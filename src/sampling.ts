@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+
+/** The answer to a `sampling/createMessage` request */
+export interface CreateMessageResult {
+    role: 'assistant';
+    content: { type: 'text'; text: string };
+    model: string;
+    stopReason: string;
+}
+
+// How much of the request the confirmation shows
+const MAX_PREVIEW_LENGTH = 500;
+
+/**
+ * Answers `sampling/createMessage` with one of the editor's language models.
+ * The server's request is shown first and only sent once the user allows it,
+ * since it runs on their model access. Only text messages can be passed on.
+ * Throws when there is no model or the user declines.
+ */
+export async function createSamplingMessage(serverName: string, params: any): Promise<CreateMessageResult> {
+    // The language model API is missing from editors older than 1.90
+    if (!vscode.lm) {
+        throw new Error('No language model is available for sampling');
+    }
+    const messages = toChatMessages(params);
+    const model = await selectModel(params?.modelPreferences);
+
+    const lastMessage = params?.messages?.[params.messages.length - 1];
+    const preview = [params?.systemPrompt, getText(lastMessage?.content)].filter(Boolean).join('\n\n');
+    const choice = await vscode.window.showInformationMessage(
+        `${serverName} wants to use ${model.name}`,
+        { modal: true, detail: preview.length > MAX_PREVIEW_LENGTH ? `${preview.slice(0, MAX_PREVIEW_LENGTH)}…` : preview },
+        'Allow',
+        'Decline'
+    );
+    if (choice !== 'Allow') {
+        throw new Error('The user declined the sampling request');
+    }
+
+    const response = await model.sendRequest(messages, { justification: `${serverName} asked for a completion through Bluetext` });
+    let text = '';
+    for await (const fragment of response.text) {
+        text += fragment;
+    }
+    return { role: 'assistant', content: { type: 'text', text }, model: model.id, stopReason: 'endTurn' };
+}
+
+/**
+ * Picks the first model matching one of the server's hints, which name or
+ * partly name a model, and otherwise the editor's first model.
+ */
+async function selectModel(preferences: any): Promise<vscode.LanguageModelChat> {
+    const models = await vscode.lm.selectChatModels();
+    if (models.length === 0) {
+        throw new Error('No language model is available for sampling');
+    }
+    const hints: string[] = (preferences?.hints ?? []).map((hint: any) => String(hint?.name ?? '').toLowerCase()).filter(Boolean);
+    for (const hint of hints) {
+        const match = models.find(model => [model.id, model.name, model.family].some(value => value.toLowerCase().includes(hint)));
+        if (match) {
+            return match;
+        }
+    }
+    return models[0];
+}
+
+// The language model API has no system role, so the system prompt leads as a user message
+function toChatMessages(params: any): vscode.LanguageModelChatMessage[] {
+    const messages: vscode.LanguageModelChatMessage[] = [];
+    if (params?.systemPrompt) {
+        messages.push(vscode.LanguageModelChatMessage.User(params.systemPrompt));
+    }
+    for (const message of params?.messages ?? []) {
+        const text = getText(message?.content);
+        if (text === undefined) {
+            throw new Error('Only text messages can be sampled');
+        }
+        messages.push(message.role === 'assistant'
+            ? vscode.LanguageModelChatMessage.Assistant(text)
+            : vscode.LanguageModelChatMessage.User(text));
+    }
+    return messages;
+}
+
+// A message holds one content block or, in newer protocol versions, a list of them
+function getText(content: any): string | undefined {
+    const blocks: any[] = Array.isArray(content) ? content : [content];
+    if (blocks.length === 0 || blocks.some(block => block?.type !== 'text')) {
+        return undefined;
+    }
+    return blocks.map(block => String(block.text ?? '')).join('\n');
+}
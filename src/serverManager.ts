@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { ChildProcess, spawn } from 'child_process';
+import { WizardPanel } from './wizardPanel';
+import { getMcpEndpoint, getServerCommand } from './settings';
+
+export type ServerState = 'stopped' | 'starting' | 'running' | 'stopping';
+
+export interface ServerStateChange {
+    folder: vscode.WorkspaceFolder;
+    state: ServerState;
+}
+
+const STDERR_TAIL_LINES = 20;
+const READY_TIMEOUT_MS = 120000;
+const PROBE_INTERVAL_MS = 500;
+const STOP_GRACE_MS = 5000;
+
+/**
+ * Supervises one MCP server process (`pt run --mcp` unless configured
+ * otherwise) per workspace folder.
+ */
+export class McpServerManager {
+    private static readonly instances = new Map<string, McpServerManager>();
+    private static readonly stateEmitter = new vscode.EventEmitter<ServerStateChange>();
+
+    public static readonly onDidChangeState = McpServerManager.stateEmitter.event;
+
+    private process: ChildProcess | undefined;
+    private state: ServerState = 'stopped';
+    private outputChannel: vscode.OutputChannel | undefined;
+    private stderrTail: string[] = [];
+    private lastPort: number | undefined;
+
+    private constructor(public readonly folder: vscode.WorkspaceFolder) {}
+
+    public static forFolder(folder: vscode.WorkspaceFolder): McpServerManager {
+        const key = folder.uri.toString();
+        let manager = McpServerManager.instances.get(key);
+        if (!manager) {
+            manager = new McpServerManager(folder);
+            McpServerManager.instances.set(key, manager);
+        }
+        return manager;
+    }
+
+    public static getAll(): McpServerManager[] {
+        return [...McpServerManager.instances.values()];
+    }
+
+    public static disposeAll(): void {
+        McpServerManager.instances.forEach(manager => manager.dispose());
+        McpServerManager.instances.clear();
+    }
+
+    public getState(): ServerState {
+        return this.state;
+    }
+
+    public getPid(): number | undefined {
+        return this.process?.pid;
+    }
+
+    /**
+     * Spawns the server command in the folder and resolves once the port accepts
+     * connections. Resolves false if the process exits first or the server is
+     * not ready within the timeout; in the latter case the process keeps
+     * running and the state flips to running once the port opens.
+     */
+    public async start(port: number): Promise<boolean> {
+        const panel = WizardPanel.getInstance();
+
+        if (this.process) {
+            panel.logToTerminal(`MCP server for ${this.folder.name} is already running (PID ${this.process.pid})`, 'info');
+            return this.state === 'running';
+        }
+
+        const output = this.getOutputChannel();
+        const cwd = this.folder.uri.fsPath;
+        this.lastPort = port;
+        this.stderrTail = [];
+
+        const { command, args, env } = getServerCommand(this.folder, port);
+        output.appendLine(`[${new Date().toLocaleTimeString()}] Starting: ${[command, ...args].join(' ')} (cwd: ${cwd})`);
+
+        const child = spawn(command, args, {
+            cwd,
+            env,
+            shell: process.platform === 'win32'
+        });
+        this.process = child;
+        this.setState('starting');
+
+        child.stdout?.setEncoding('utf8');
+        child.stderr?.setEncoding('utf8');
+        child.stdout?.on('data', (chunk: string) => output.append(chunk));
+        child.stderr?.on('data', (chunk: string) => {
+            output.append(chunk);
+            this.recordStderr(chunk);
+        });
+
+        const exited = new Promise<void>(resolve => {
+            child.on('error', (error) => {
+                output.appendLine(`Failed to start ${command}: ${error.message}`);
+                this.recordStderr(error.message);
+            });
+            child.on('close', (code, signal) => {
+                this.handleExit(child, code, signal);
+                resolve();
+            });
+        });
+
+        if (child.pid !== undefined) {
+            panel.logToTerminal(`MCP server process for ${this.folder.name} started (PID ${child.pid})`, 'info');
+        }
+
+        const ready = this.waitForPort(child, port);
+        const timeout = new Promise<'timeout'>(resolve => setTimeout(() => resolve('timeout'), READY_TIMEOUT_MS));
+        const outcome = await Promise.race([ready, exited.then(() => false), timeout]);
+
+        if (outcome === 'timeout') {
+            panel.logToTerminal(`MCP server did not open port ${port} within ${READY_TIMEOUT_MS / 1000}s; still waiting...`, 'error');
+            return false;
+        }
+        return outcome;
+    }
+
+    public async stop(): Promise<void> {
+        const child = this.process;
+        if (!child) {
+            return;
+        }
+
+        this.setState('stopping');
+        WizardPanel.getInstance().logToTerminal(`Stopping MCP server for ${this.folder.name} (PID ${child.pid})...`, 'command');
+
+        await new Promise<void>(resolve => {
+            const forceKill = setTimeout(() => child.kill('SIGKILL'), STOP_GRACE_MS);
+            child.once('close', () => {
+                clearTimeout(forceKill);
+                resolve();
+            });
+            child.kill('SIGTERM');
+        });
+    }
+
+    public async restart(): Promise<boolean> {
+        const port = this.lastPort;
+        if (port === undefined) {
+            WizardPanel.getInstance().logToTerminal(`MCP server for ${this.folder.name} has not been started yet`, 'error');
+            return false;
+        }
+        await this.stop();
+        return this.start(port);
+    }
+
+    public showOutput(): void {
+        this.getOutputChannel().show(true);
+    }
+
+    public dispose(): void {
+        this.process?.kill('SIGTERM');
+        this.outputChannel?.dispose();
+    }
+
+    /**
+     * Probes whether something is listening on a folder's MCP endpoint,
+     * whoever started it.
+     */
+    public static async isEndpointOpen(folder: vscode.WorkspaceFolder): Promise<boolean> {
+        let endpoint;
+        try {
+            endpoint = getMcpEndpoint(folder);
+        } catch {
+            return false; // bluetext.mcpUrl is not a usable URL
+        }
+        return McpServerManager.isPortOpen(endpoint.port, endpoint.host);
+    }
+
+    /**
+     * Probes whether something is already listening on the port.
+     */
+    public static isPortOpen(port: number, host: string = '127.0.0.1'): Promise<boolean> {
+        return new Promise(resolve => {
+            const socket = net.connect({ port, host });
+            socket.setTimeout(1000);
+            socket.once('connect', () => {
+                socket.destroy();
+                resolve(true);
+            });
+            socket.once('timeout', () => {
+                socket.destroy();
+                resolve(false);
+            });
+            socket.once('error', () => resolve(false));
+        });
+    }
+
+    private async waitForPort(child: ChildProcess, port: number): Promise<boolean> {
+        while (this.process === child && this.state === 'starting') {
+            if (await McpServerManager.isPortOpen(port, getMcpEndpoint(this.folder).host)) {
+                if (this.process !== child) {
+                    return false;
+                }
+                this.setState('running');
+                WizardPanel.getInstance().logToTerminal(`✅ MCP server for ${this.folder.name} is ready on port ${port}`, 'success');
+                return true;
+            }
+            await new Promise(resolve => setTimeout(resolve, PROBE_INTERVAL_MS));
+        }
+        return false;
+    }
+
+    private handleExit(child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+        if (this.process !== child) {
+            return;
+        }
+
+        const panel = WizardPanel.getInstance();
+        const expected = this.state === 'stopping';
+        const reason = code !== null ? `exit code ${code}` : `signal ${signal}`;
+
+        this.process = undefined;
+        this.getOutputChannel().appendLine(`[${new Date().toLocaleTimeString()}] MCP server exited (${reason})`);
+
+        if (expected) {
+            panel.logToTerminal(`🛑 MCP server for ${this.folder.name} stopped (${reason})`, 'info');
+        } else {
+            panel.logToTerminal(`❌ MCP server for ${this.folder.name} exited unexpectedly (${reason})`, 'error');
+            if (this.stderrTail.length > 0) {
+                panel.logToTerminal('Last stderr output:', 'error');
+                this.stderrTail.forEach(line => panel.logToTerminal(line, 'error'));
+            }
+        }
+
+        this.setState('stopped', !expected);
+    }
+
+    private recordStderr(chunk: string): void {
+        const lines = chunk.split(/\r?\n/).filter(line => line.trim());
+        this.stderrTail.push(...lines);
+        if (this.stderrTail.length > STDERR_TAIL_LINES) {
+            this.stderrTail.splice(0, this.stderrTail.length - STDERR_TAIL_LINES);
+        }
+    }
+
+    private setState(state: ServerState, failed: boolean = false): void {
+        if (this.state === state) {
+            return;
+        }
+        this.state = state;
+
+        // The wizard's server step mirrors the real process state
+        const panel = WizardPanel.getInstance();
+        if (state === 'starting') {
+            panel.updateStepStatus('server', 'doing', this.folder);
+        } else if (state === 'running') {
+            panel.updateStepStatus('server', 'done', this.folder);
+        } else if (state === 'stopped') {
+            panel.updateStepStatus('server', failed ? 'error' : 'pending', this.folder);
+        }
+
+        McpServerManager.stateEmitter.fire({ folder: this.folder, state });
+    }
+
+    private getOutputChannel(): vscode.OutputChannel {
+        if (!this.outputChannel) {
+            const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+            this.outputChannel = vscode.window.createOutputChannel(
+                multiRoot ? `Bluetext MCP Server (${this.folder.name})` : 'Bluetext MCP Server'
+            );
+        }
+        return this.outputChannel;
+    }
+}
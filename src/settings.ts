@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import { ClaudeCodeScope } from './agents/claudeCode';
+
+const SECTION = 'bluetext';
+const DEFAULT_MCP_PORT = 31338;
+
+/** The `bluetext.*` settings as they apply to one workspace folder */
+export interface BluetextSettings {
+    /** A server running elsewhere; when set it replaces host, port and path */
+    mcpUrl: string;
+    mcpPort: number;
+    mcpHost: string;
+    mcpPath: string;
+    /** Extra HTTP headers sent to the MCP server, e.g. Authorization */
+    mcpHeaders: Record<string, string>;
+    serverCommand: string;
+    /** May contain `${port}`, which is replaced by the folder's MCP port */
+    serverArgs: string[];
+    serverEnv: Record<string, string>;
+    autoStartMCP: boolean;
+    preferredAgent: string;
+    repoRef: string;
+    claudeCodeScope: ClaudeCodeScope;
+}
+
+/** Where the extension itself connects to a folder's MCP server */
+export interface McpEndpoint {
+    secure: boolean;
+    host: string;
+    port: number;
+    path: string;
+}
+
+/** How to start a folder's MCP server */
+export interface ServerCommand {
+    command: string;
+    args: string[];
+    env: NodeJS.ProcessEnv;
+}
+
+// Settings that change where or how the MCP server is reached
+const ENDPOINT_SETTINGS = ['mcpUrl', 'mcpPort', 'mcpHost', 'mcpPath', 'mcpHeaders'];
+
+export function getSettings(folder?: vscode.WorkspaceFolder): BluetextSettings {
+    const config = vscode.workspace.getConfiguration(SECTION, folder?.uri);
+    return {
+        mcpUrl: config.get<string>('mcpUrl', '').trim(),
+        mcpPort: getMcpPort(folder),
+        mcpHost: config.get<string>('mcpHost', 'localhost').trim() || 'localhost',
+        mcpPath: normalizePath(config.get<string>('mcpPath', '/mcp')),
+        mcpHeaders: config.get<Record<string, string>>('mcpHeaders', {}),
+        serverCommand: config.get<string>('serverCommand', 'pt').trim() || 'pt',
+        serverArgs: config.get<string[]>('serverArgs', ['run', '--mcp', '--mcp-port', '${port}']),
+        serverEnv: config.get<Record<string, string>>('serverEnv', {}),
+        autoStartMCP: config.get<boolean>('autoStartMCP', false),
+        preferredAgent: config.get<string>('preferredAgent', 'cline'),
+        repoRef: config.get<string>('repoRef', ''),
+        claudeCodeScope: config.get<ClaudeCodeScope>('claudeCodeScope', 'local')
+    };
+}
+
+/**
+ * Saves a setting for the whole workspace, where every folder picks it up
+ * unless it overrides it.
+ */
+export async function updateWorkspaceSetting<K extends keyof BluetextSettings>(key: K, value: BluetextSettings[K]): Promise<void> {
+    await vscode.workspace.getConfiguration(SECTION).update(key, value, vscode.ConfigurationTarget.Workspace);
+}
+
+/**
+ * Each folder gets its own MCP server port so servers in a multi-root
+ * workspace don't collide. A folder-level `bluetext.mcpPort` setting wins;
+ * otherwise folders are numbered upwards from the workspace-wide port.
+ */
+export function getMcpPort(folder?: vscode.WorkspaceFolder): number {
+    const config = vscode.workspace.getConfiguration(SECTION, folder?.uri);
+    const basePort = config.get<number>('mcpPort', DEFAULT_MCP_PORT);
+    if (!folder) {
+        return basePort;
+    }
+
+    const folderPort = config.inspect<number>('mcpPort')?.workspaceFolderValue;
+    if (folderPort !== undefined) {
+        return folderPort;
+    }
+    return basePort + folder.index;
+}
+
+/**
+ * The server URL written into agent configs. It keeps the host as
+ * configured, so the default stays `localhost` in every agent.
+ */
+export function getMcpUrl(folder?: vscode.WorkspaceFolder): string {
+    const settings = getSettings(folder);
+    return settings.mcpUrl || `http://${formatHost(settings.mcpHost)}:${settings.mcpPort}${settings.mcpPath}`;
+}
+
+/** The server URL for log lines and labels; only https is spelled out */
+export function describeMcpEndpoint(folder?: vscode.WorkspaceFolder): string {
+    return getMcpUrl(folder).replace(/^http:\/\//, '');
+}
+
+/**
+ * Whether the folder uses a server it doesn't run itself, set with
+ * `bluetext.mcpUrl`. No server process is started for such folders.
+ */
+export function isRemoteEndpoint(folder?: vscode.WorkspaceFolder): boolean {
+    return getSettings(folder).mcpUrl !== '';
+}
+
+/**
+ * The endpoint the extension connects to. `localhost` is pinned to IPv4,
+ * where `pt` listens, because Node may resolve it to `::1` first. Throws
+ * when `bluetext.mcpUrl` is not a valid http or https URL.
+ */
+export function getMcpEndpoint(folder?: vscode.WorkspaceFolder): McpEndpoint {
+    const url = new URL(getMcpUrl(folder));
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`bluetext.mcpUrl must be an http or https URL, not ${url.protocol}`);
+    }
+    const secure = url.protocol === 'https:';
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    return {
+        secure,
+        host: host === 'localhost' ? '127.0.0.1' : host,
+        port: url.port ? Number(url.port) : secure ? 443 : 80,
+        path: url.pathname + url.search
+    };
+}
+
+export function getServerCommand(folder: vscode.WorkspaceFolder, port: number): ServerCommand {
+    const settings = getSettings(folder);
+    return {
+        command: settings.serverCommand,
+        args: settings.serverArgs.map(arg => arg.split('${port}').join(String(port))),
+        env: { ...process.env, ...settings.serverEnv }
+    };
+}
+
+export function affectsMcpEndpoint(event: vscode.ConfigurationChangeEvent): boolean {
+    return ENDPOINT_SETTINGS.some(key => event.affectsConfiguration(`${SECTION}.${key}`));
+}
+
+function normalizePath(value: string): string {
+    const trimmed = value.trim();
+    return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+// IPv6 literals need brackets in a URL
+function formatHost(host: string): string {
+    return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
@@ -0,0 +1,28 @@
+import { WizardPanel } from './wizardPanel';
+import { McpService } from './mcpService';
+import { detectCompletedSteps } from './quickStart';
+import { getWorkspaceFolders } from './workspaceFolders';
+
+/**
+ * Brings the saved step statuses in line with what is on disk and sends
+ * them to the wizard. A step that failed last time stays failed until it
+ * is found done.
+ */
+export async function refreshStepStatuses(): Promise<void> {
+    const panel = WizardPanel.getInstance();
+    const service = McpService.getInstance();
+    await Promise.all(getWorkspaceFolders().map(async folder => {
+        const completed = await detectCompletedSteps(folder);
+        for (const [stepId, done] of completed) {
+            if (done) {
+                panel.updateStepStatus(stepId, 'done', folder);
+            } else if (panel.getStepStatus(stepId, folder) === 'done') {
+                panel.updateStepStatus(stepId, 'pending', folder);
+            }
+        }
+        // An open port isn't proof of an MCP server, so let the health checks confirm it
+        if (completed.get('server') && service.getTargetFolder()?.uri.toString() === folder.uri.toString()) {
+            service.startHealthMonitoring();
+        }
+    }));
+}
@@ -0,0 +1,508 @@
+// Builds parameter forms for MCP tools from their JSON Schema input schema.
+// Every field validates itself when it changes and again on submit, showing
+// its problem inline; collect() only succeeds once the whole form is valid.
+
+const INPUT_TYPES_BY_FORMAT = {
+    email: 'email',
+    uri: 'url',
+    date: 'date',
+    time: 'time',
+    'date-time': 'datetime-local'
+};
+
+const FORMAT_PATTERNS = {
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/,
+    uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    time: /^\d{2}:\d{2}(:\d{2})?$/,
+    ipv4: /^(\d{1,3}\.){3}\d{1,3}$/
+};
+
+/**
+ * Renders a form for an object schema. `values` pre-fills it and falls back
+ * to the schema defaults. Returns the form element and a collect() that
+ * validates the form and returns { valid, value }.
+ */
+function createSchemaForm(schema, values) {
+    const root = createObjectControl(schema || {}, values || {}, true, true);
+    return {
+        element: root.element,
+        collect() {
+            const errors = [];
+            const result = root.read(errors);
+            return { valid: errors.length === 0 && !result.error, value: result.value || {}, errors };
+        }
+    };
+}
+
+// Work out which kind of control a schema needs
+function getSchemaKind(schema) {
+    if (schema.oneOf || schema.anyOf) return 'variants';
+    if (schema.const !== undefined) return 'const';
+    if (Array.isArray(schema.enum)) return 'enum';
+    let type = schema.type;
+    if (Array.isArray(type)) {
+        type = type.find(candidate => candidate !== 'null');
+    }
+    if (!type) {
+        if (schema.properties) return 'object';
+        if (schema.items) return 'array';
+        return 'json';
+    }
+    if (type === 'object') return schema.properties ? 'object' : 'json';
+    if (type === 'array') return schema.items && !Array.isArray(schema.items) ? 'array' : 'json';
+    if (type === 'integer' || type === 'number' || type === 'boolean' || type === 'string') return type;
+    return 'json';
+}
+
+/**
+ * A labelled field around one control. Shows the control's own problem, or
+ * "Required" when a required value is missing.
+ */
+function createSchemaField(schema, value, options) {
+    const field = document.createElement('div');
+    field.className = 'tool-param-group schema-field';
+
+    if (options.label) {
+        const label = document.createElement('label');
+        label.className = 'tool-param-label';
+        label.textContent = options.label;
+        if (options.required) {
+            const marker = document.createElement('span');
+            marker.className = 'tool-param-required';
+            marker.textContent = '*';
+            label.appendChild(marker);
+        }
+        field.appendChild(label);
+    }
+    const description = schema.description || schema.title;
+    if (description && description !== options.label) {
+        const text = document.createElement('div');
+        text.className = 'tool-param-description';
+        text.textContent = description;
+        field.appendChild(text);
+    }
+
+    const control = createSchemaControl(schema, value !== undefined ? value : schema.default, options.required);
+    field.appendChild(control.element);
+
+    const errorText = document.createElement('div');
+    errorText.className = 'schema-field-error';
+    field.appendChild(errorText);
+
+    function read(errors) {
+        const result = control.read(errors);
+        const message = result.error || (options.required && result.value === undefined ? 'Required' : '');
+        errorText.textContent = message;
+        field.classList.toggle('invalid', Boolean(message));
+        if (message) {
+            errors.push({ label: options.label, message: message });
+        }
+        return result.value;
+    }
+
+    function clear() {
+        errorText.textContent = '';
+        field.classList.remove('invalid');
+    }
+
+    // Only the innermost field re-validates, so nested problems stay where they are
+    field.addEventListener('change', event => {
+        if (event.target.closest('.schema-field') === field) {
+            read([]);
+        }
+    });
+
+    return { element: field, read: read, clear: clear };
+}
+
+function createSchemaControl(schema, value, required) {
+    const kind = getSchemaKind(schema);
+    switch (kind) {
+        case 'variants': return createVariantControl(schema, value, required);
+        case 'const': return createConstControl(schema);
+        case 'enum': return createEnumControl(schema, value);
+        case 'object': return createObjectControl(schema, value || {}, false, required);
+        case 'array': return createArrayControl(schema, value);
+        case 'boolean': return createBooleanControl(value);
+        case 'integer':
+        case 'number': return createNumberControl(schema, value, kind === 'integer');
+        case 'string': return createStringControl(schema, value);
+        default: return createJsonControl(schema, value);
+    }
+}
+
+function createObjectControl(schema, value, isRoot, required) {
+    const container = document.createElement(isRoot ? 'div' : 'fieldset');
+    container.className = isRoot ? 'schema-form' : 'schema-object';
+    const properties = schema.properties || {};
+    const requiredNames = schema.required || [];
+    const fields = Object.keys(properties).map(name => {
+        const field = createSchemaField(properties[name], value[name], { label: name, required: requiredNames.includes(name) });
+        container.appendChild(field.element);
+        return { name: name, field: field };
+    });
+    if (isRoot && fields.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'no-params-message';
+        empty.textContent = 'This tool has no parameters configured.';
+        container.appendChild(empty);
+    }
+
+    return {
+        element: container,
+        read(errors) {
+            const result = {};
+            const fieldErrors = [];
+            fields.forEach(({ name, field }) => {
+                const fieldValue = field.read(fieldErrors);
+                if (fieldValue !== undefined) {
+                    result[name] = fieldValue;
+                }
+            });
+            // An untouched optional object is left out, so its required fields don't apply
+            if (Object.keys(result).length === 0 && !required) {
+                fields.forEach(({ field }) => field.clear());
+                return { value: undefined };
+            }
+            fieldErrors.forEach(error => errors.push(error));
+            return { value: result };
+        }
+    };
+}
+
+function createArrayControl(schema, value) {
+    const itemSchema = schema.items;
+    if (Array.isArray(itemSchema.enum)) {
+        return createMultiSelectControl(schema, value);
+    }
+
+    const container = document.createElement('div');
+    container.className = 'schema-array';
+    const list = document.createElement('div');
+    const addButton = document.createElement('button');
+    addButton.type = 'button';
+    addButton.className = 'schema-add-button';
+    addButton.textContent = '+ Add item';
+    container.appendChild(list);
+    container.appendChild(addButton);
+
+    const items = [];
+    function addItem(itemValue) {
+        const row = document.createElement('div');
+        row.className = 'schema-array-item';
+        const field = createSchemaField(itemSchema, itemValue, { required: true });
+        const removeButton = document.createElement('button');
+        removeButton.type = 'button';
+        removeButton.className = 'schema-remove-button';
+        removeButton.title = 'Remove item';
+        removeButton.textContent = '×';
+        const item = { row: row, field: field };
+        removeButton.addEventListener('click', () => {
+            items.splice(items.indexOf(item), 1);
+            row.remove();
+            updateAddButton();
+        });
+        row.appendChild(field.element);
+        row.appendChild(removeButton);
+        list.appendChild(row);
+        items.push(item);
+        updateAddButton();
+    }
+    function updateAddButton() {
+        addButton.disabled = schema.maxItems !== undefined && items.length >= schema.maxItems;
+    }
+
+    addButton.addEventListener('click', () => addItem(undefined));
+    (Array.isArray(value) ? value : []).forEach(itemValue => addItem(itemValue));
+    updateAddButton();
+
+    return {
+        element: container,
+        read(errors) {
+            if (items.length === 0) {
+                return { value: undefined };
+            }
+            const result = items.map(item => item.field.read(errors));
+            return { value: result, error: checkItemCount(schema, result.length) };
+        }
+    };
+}
+
+// An array of enum values is a set of checkboxes
+function createMultiSelectControl(schema, value) {
+    const container = document.createElement('div');
+    container.className = 'schema-choices';
+    const selected = Array.isArray(value) ? value : [];
+    const boxes = schema.items.enum.map(option => {
+        const label = document.createElement('label');
+        const box = document.createElement('input');
+        box.type = 'checkbox';
+        box.checked = selected.some(item => JSON.stringify(item) === JSON.stringify(option));
+        label.appendChild(box);
+        label.appendChild(document.createTextNode(' ' + formatOption(option)));
+        container.appendChild(label);
+        return { box: box, option: option };
+    });
+
+    return {
+        element: container,
+        read() {
+            const result = boxes.filter(({ box }) => box.checked).map(({ option }) => option);
+            if (result.length === 0) {
+                return { value: undefined };
+            }
+            return { value: result, error: checkItemCount(schema, result.length) };
+        }
+    };
+}
+
+function checkItemCount(schema, count) {
+    if (schema.minItems !== undefined && count < schema.minItems) {
+        return 'Add at least ' + schema.minItems + ' item' + (schema.minItems !== 1 ? 's' : '');
+    }
+    if (schema.maxItems !== undefined && count > schema.maxItems) {
+        return 'Use at most ' + schema.maxItems + ' item' + (schema.maxItems !== 1 ? 's' : '');
+    }
+    return undefined;
+}
+
+/**
+ * oneOf/anyOf: a dropdown picks the alternative, and the form below it
+ * switches to that alternative's schema.
+ */
+function createVariantControl(schema, value, required) {
+    const variants = (schema.oneOf || schema.anyOf).map(variant => {
+        // Keywords next to oneOf/anyOf apply to every alternative
+        const base = Object.assign({}, schema);
+        delete base.oneOf;
+        delete base.anyOf;
+        delete base.description;
+        delete base.title;
+        return Object.assign(base, variant);
+    });
+
+    const container = document.createElement('div');
+    container.className = 'schema-variants';
+    const select = document.createElement('select');
+    select.className = 'tool-param-input';
+    variants.forEach((variant, index) => {
+        const option = document.createElement('option');
+        option.value = String(index);
+        option.textContent = variant.title || describeSchemaType(variant) || 'Option ' + (index + 1);
+        select.appendChild(option);
+    });
+    const body = document.createElement('div');
+    body.className = 'schema-variant-body';
+    container.appendChild(select);
+    container.appendChild(body);
+
+    let control;
+    function showVariant(index, variantValue) {
+        select.value = String(index);
+        control = createSchemaControl(variants[index], variantValue, required);
+        body.innerHTML = '';
+        body.appendChild(control.element);
+    }
+    select.addEventListener('change', () => showVariant(Number(select.value), undefined));
+
+    const matching = value === undefined ? -1 : variants.findIndex(variant => valueMatchesSchemaType(value, variant));
+    showVariant(matching === -1 ? 0 : matching, matching === -1 ? undefined : value);
+
+    return {
+        element: container,
+        read(errors) {
+            return control.read(errors);
+        }
+    };
+}
+
+function createConstControl(schema) {
+    const element = document.createElement('code');
+    element.className = 'schema-const';
+    element.textContent = JSON.stringify(schema.const);
+    return {
+        element: element,
+        read() {
+            return { value: schema.const };
+        }
+    };
+}
+
+function createEnumControl(schema, value) {
+    const select = document.createElement('select');
+    select.className = 'tool-param-input';
+    const empty = document.createElement('option');
+    empty.value = '';
+    empty.textContent = '— Select —';
+    select.appendChild(empty);
+    schema.enum.forEach((option, index) => {
+        const element = document.createElement('option');
+        element.value = String(index);
+        element.textContent = formatOption(option);
+        select.appendChild(element);
+    });
+    const selected = schema.enum.findIndex(option => JSON.stringify(option) === JSON.stringify(value));
+    select.value = selected === -1 ? '' : String(selected);
+
+    return {
+        element: select,
+        read() {
+            return { value: select.value === '' ? undefined : schema.enum[Number(select.value)] };
+        }
+    };
+}
+
+function createBooleanControl(value) {
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.className = 'tool-param-input';
+    input.checked = value === true;
+    return {
+        element: input,
+        read() {
+            return { value: input.checked };
+        }
+    };
+}
+
+function createNumberControl(schema, value, isInteger) {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.className = 'tool-param-input';
+    input.step = isInteger ? '1' : 'any';
+    if (schema.minimum !== undefined) input.min = String(schema.minimum);
+    if (schema.maximum !== undefined) input.max = String(schema.maximum);
+    input.placeholder = describeRange(schema) || (isInteger ? 'Whole number' : 'Number');
+    if (typeof value === 'number') input.value = String(value);
+
+    return {
+        element: input,
+        read() {
+            if (input.value.trim() === '') {
+                return { value: undefined, error: input.validity.badInput ? 'Must be a number' : undefined };
+            }
+            const number = Number(input.value);
+            return { value: number, error: checkNumber(schema, number, isInteger) };
+        }
+    };
+}
+
+function checkNumber(schema, number, isInteger) {
+    if (Number.isNaN(number)) return 'Must be a number';
+    if (isInteger && !Number.isInteger(number)) return 'Must be a whole number';
+    if (schema.minimum !== undefined && number < schema.minimum) return 'Must be at least ' + schema.minimum;
+    if (schema.maximum !== undefined && number > schema.maximum) return 'Must be at most ' + schema.maximum;
+    if (typeof schema.exclusiveMinimum === 'number' && number <= schema.exclusiveMinimum) return 'Must be greater than ' + schema.exclusiveMinimum;
+    if (typeof schema.exclusiveMaximum === 'number' && number >= schema.exclusiveMaximum) return 'Must be less than ' + schema.exclusiveMaximum;
+    if (schema.multipleOf && Math.abs(number / schema.multipleOf - Math.round(number / schema.multipleOf)) > 1e-9) {
+        return 'Must be a multiple of ' + schema.multipleOf;
+    }
+    return undefined;
+}
+
+function createStringControl(schema, value) {
+    const input = document.createElement('input');
+    input.type = INPUT_TYPES_BY_FORMAT[schema.format] || 'text';
+    input.className = 'tool-param-input';
+    if (schema.maxLength !== undefined) input.maxLength = schema.maxLength;
+    input.placeholder = schema.format && !INPUT_TYPES_BY_FORMAT[schema.format] ? schema.format : (schema.examples && schema.examples.length > 0 ? String(schema.examples[0]) : '');
+    if (typeof value === 'string') {
+        input.value = schema.format === 'date-time' ? toLocalDateTime(value) : value;
+    }
+
+    return {
+        element: input,
+        read() {
+            if (input.value === '') {
+                return { value: undefined };
+            }
+            // datetime-local has no time zone, so it's sent as UTC ISO 8601
+            const text = schema.format === 'date-time' ? new Date(input.value).toISOString() : input.value;
+            return { value: text, error: checkString(schema, text) };
+        }
+    };
+}
+
+function checkString(schema, text) {
+    if (schema.minLength !== undefined && text.length < schema.minLength) return 'Must be at least ' + schema.minLength + ' characters';
+    if (schema.maxLength !== undefined && text.length > schema.maxLength) return 'Must be at most ' + schema.maxLength + ' characters';
+    if (schema.pattern !== undefined) {
+        try {
+            if (!new RegExp(schema.pattern, 'u').test(text)) return 'Must match the pattern ' + schema.pattern;
+        } catch (e) {
+            // A pattern the browser can't compile is left to the server to check
+        }
+    }
+    const formatPattern = FORMAT_PATTERNS[schema.format];
+    if (formatPattern && !formatPattern.test(text)) return 'Must be a valid ' + schema.format;
+    return undefined;
+}
+
+// Free-form objects, tuples and anything else without a dedicated control
+function createJsonControl(schema, value) {
+    const textarea = document.createElement('textarea');
+    textarea.className = 'tool-param-input';
+    textarea.rows = 4;
+    textarea.placeholder = schema.type === 'array' ? 'JSON array, e.g. ["item1", "item2"]' : 'JSON value, e.g. {"key": "value"}';
+    if (value !== undefined) textarea.value = JSON.stringify(value, null, 2);
+
+    return {
+        element: textarea,
+        read() {
+            if (textarea.value.trim() === '') {
+                return { value: undefined };
+            }
+            let parsed;
+            try {
+                parsed = JSON.parse(textarea.value);
+            } catch (e) {
+                return { value: undefined, error: 'Invalid JSON: ' + e.message };
+            }
+            if (schema.type && !valueMatchesSchemaType(parsed, schema)) {
+                return { value: parsed, error: 'Must be ' + describeSchemaType(schema) };
+            }
+            return { value: parsed };
+        }
+    };
+}
+
+function valueMatchesSchemaType(value, schema) {
+    if (schema.const !== undefined) return JSON.stringify(schema.const) === JSON.stringify(value);
+    if (Array.isArray(schema.enum)) return schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value));
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (types.length === 0) return true;
+    return types.some(type => {
+        switch (type) {
+            case 'null': return value === null;
+            case 'array': return Array.isArray(value);
+            case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+            case 'integer': return Number.isInteger(value);
+            default: return typeof value === type;
+        }
+    });
+}
+
+function describeSchemaType(schema) {
+    if (Array.isArray(schema.type)) return schema.type.join(' or ');
+    if (schema.type === 'array' && schema.items && schema.items.type) return 'array of ' + schema.items.type;
+    return schema.type || (schema.properties ? 'object' : '');
+}
+
+function describeRange(schema) {
+    if (schema.minimum !== undefined && schema.maximum !== undefined) return schema.minimum + ' – ' + schema.maximum;
+    if (schema.minimum !== undefined) return '≥ ' + schema.minimum;
+    if (schema.maximum !== undefined) return '≤ ' + schema.maximum;
+    return '';
+}
+
+function formatOption(option) {
+    return typeof option === 'string' ? option : JSON.stringify(option);
+}
+
+function toLocalDateTime(isoText) {
+    const date = new Date(isoText);
+    if (Number.isNaN(date.getTime())) return '';
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
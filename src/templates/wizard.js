@@ -1,10 +1,22 @@
 const vscode = acquireVsCodeApi();
-let clineConfigured = false;
-let claudeConfigured = false;
-let copilotConfigured = false;
+let agents = [];
+const configuredAgents = new Set();
 let availableTools = [];
 let executedTools = new Set();
+const failedTools = new Set();
+let currentResultRunId = null;
+const activeToolRuns = new Map();
 let currentToolIndex = null;
+let modalForm = null;
+const toolForms = new Map();
+let savedToolArguments = {};
+let workspaceFolders = [];
+let selectedFolder = null;
+let activeTab = null;
+const stepStatuses = {};
+let quickStartSteps = [];
+const skippedSteps = new Set();
+const consoleEntries = [];
 
 function toggleHeader(headerId) {
     const content = document.getElementById(headerId + '-content');
@@ -15,8 +27,7 @@ function toggleHeader(headerId) {
     }
 }
 
-function toggleTool(event, toolIndex) {
-    const toolHeader = event.currentTarget;
+function toggleTool(toolHeader) {
     const toolItem = toolHeader.parentElement;
     const description = toolItem.querySelector('.tool-description');
     const paramsSection = toolItem.querySelector('.tool-params-section');
@@ -51,68 +62,47 @@ function runTool(toolIndex) {
     }
 }
 
+// Starting values for a tool's form: the arguments it last ran with, else the schema defaults
+function getInitialToolArguments(tool) {
+    return savedToolArguments[tool.name] || {};
+}
+
 function collectToolParams(toolIndex) {
     const tool = availableTools[toolIndex];
     if (!tool) return null;
     
-    const schema = tool.inputSchema;
-    if (!schema || !schema.properties || Object.keys(schema.properties).length === 0) {
+    const form = toolForms.get(toolIndex);
+    if (!form) {
         return {};
     }
     
-    const params = {};
-    const properties = schema.properties;
-    
-    // First, populate with all default values from the schema
-    Object.keys(properties).forEach(paramName => {
-        const param = properties[paramName];
-        if (param.default !== undefined) {
-            params[paramName] = param.default;
-        }
-    });
-    
-    // Then override with user input values if they exist
-    const inputs = document.querySelectorAll(`[data-tool-params="${toolIndex}"] .tool-param-input`);
-    
-    inputs.forEach(input => {
-        const paramName = input.getAttribute('data-param');
-        const paramType = input.getAttribute('data-type');
-        let value;
-        let hasValue = false;
-        
-        if (paramType === 'boolean') {
-            // For checkboxes, always use the checked state (even if false)
-            value = input.checked;
-            hasValue = true;
-        } else if (paramType === 'number' || paramType === 'integer') {
-            if (input.value !== '') {
-                value = paramType === 'integer' ? parseInt(input.value, 10) : parseFloat(input.value);
-                hasValue = true;
-            }
-        } else if (paramType === 'array' || paramType === 'object') {
-            if (input.value.trim()) {
-                try {
-                    value = JSON.parse(input.value);
-                    hasValue = true;
-                } catch (e) {
-                    alert(`Invalid JSON for parameter "${paramName}": ${e.message}`);
-                    return null;
-                }
-            }
-        } else {
-            if (input.value !== '') {
-                value = input.value;
-                hasValue = true;
-            }
-        }
-        
-        // Override default with user value if provided
-        if (hasValue) {
-            params[paramName] = value;
+    const result = form.collect();
+    if (!result.valid) {
+        // Open the parameters so the inline errors are visible
+        const section = document.querySelector(`[data-tool-params="${toolIndex}"]`);
+        if (section) {
+            section.classList.add('show');
+            const firstError = section.querySelector('.schema-field.invalid');
+            if (firstError) firstError.scrollIntoView({ behavior: 'smooth', block: 'center' });
         }
-    });
+        return null;
+    }
+    return result.value;
+}
+
+function mountToolForm(toolIndex, values) {
+    const tool = availableTools[toolIndex];
+    const container = document.querySelector(`[data-tool-form="${toolIndex}"]`);
+    if (!tool || !container) return;
     
-    return params;
+    const form = createSchemaForm(tool.inputSchema, values);
+    container.innerHTML = '';
+    container.appendChild(form.element);
+    toolForms.set(toolIndex, form);
+}
+
+function resetToolForm(toolIndex) {
+    mountToolForm(toolIndex, {});
 }
 
 function openParamModal(toolIndex) {
@@ -128,53 +118,10 @@ function openParamModal(toolIndex) {
         modalTitle.textContent = `${tool.name} - Parameters`;
     }
     
-    // Generate parameter form
-    const schema = tool.inputSchema;
-    let html = '';
-    
-    if (schema && schema.properties) {
-        const properties = schema.properties;
-        const required = schema.required || [];
-        
-        Object.keys(properties).forEach(paramName => {
-            const param = properties[paramName];
-            const isRequired = required.includes(paramName);
-            const paramType = param.type || 'string';
-            const description = param.description || '';
-            
-            html += '<div class="param-group">';
-            html += `<label class="param-label">${escapeHtml(paramName)}`;
-            if (isRequired) {
-                html += '<span class="param-required">*</span>';
-            }
-            html += '</label>';
-            
-            if (description) {
-                html += `<div class="param-description">${escapeHtml(description)}</div>`;
-            }
-            
-            // Generate appropriate input based on type
-            if (paramType === 'boolean') {
-                html += `<input type="checkbox" class="param-input" data-param="${escapeHtml(paramName)}" data-type="boolean">`;
-            } else if (paramType === 'number' || paramType === 'integer') {
-                html += `<input type="number" class="param-input" data-param="${escapeHtml(paramName)}" data-type="${paramType}" ${isRequired ? 'required' : ''} placeholder="Enter ${paramName}">`;
-            } else if (paramType === 'array') {
-                html += `<textarea class="param-input" data-param="${escapeHtml(paramName)}" data-type="array" rows="3" ${isRequired ? 'required' : ''} placeholder="Enter JSON array, e.g., [&quot;item1&quot;, &quot;item2&quot;]"></textarea>`;
-            } else if (paramType === 'object') {
-                html += `<textarea class="param-input" data-param="${escapeHtml(paramName)}" data-type="object" rows="4" ${isRequired ? 'required' : ''} placeholder="Enter JSON object, e.g., {&quot;key&quot;: &quot;value&quot;}"></textarea>`;
-            } else {
-                // Default to text input for string and unknown types
-                html += `<input type="text" class="param-input" data-param="${escapeHtml(paramName)}" data-type="string" ${isRequired ? 'required' : ''} placeholder="Enter ${paramName}">`;
-            }
-            
-            html += '</div>';
-        });
-    } else {
-        html = '<div class="no-params-message">This tool has no parameters configured.</div>';
-    }
-    
+    modalForm = createSchemaForm(tool.inputSchema, getInitialToolArguments(tool));
     if (modalBody) {
-        modalBody.innerHTML = html;
+        modalBody.innerHTML = '';
+        modalBody.appendChild(modalForm.element);
     }
     
     if (modal) {
@@ -188,56 +135,22 @@ function closeParamModal() {
         modal.classList.remove('active');
     }
     currentToolIndex = null;
+    modalForm = null;
 }
 
 function submitToolExecution() {
-    if (currentToolIndex === null) return;
+    if (currentToolIndex === null || !modalForm) return;
     
     const tool = availableTools[currentToolIndex];
     if (!tool) return;
     
-    // Collect parameter values
-    const params = {};
-    const inputs = document.querySelectorAll('.param-input');
-    
-    let hasError = false;
-    
-    inputs.forEach(input => {
-        const paramName = input.getAttribute('data-param');
-        const paramType = input.getAttribute('data-type');
-        let value;
-        
-        if (paramType === 'boolean') {
-            value = input.checked;
-        } else if (paramType === 'number' || paramType === 'integer') {
-            value = input.value ? (paramType === 'integer' ? parseInt(input.value, 10) : parseFloat(input.value)) : undefined;
-        } else if (paramType === 'array' || paramType === 'object') {
-            if (input.value.trim()) {
-                try {
-                    value = JSON.parse(input.value);
-                } catch (e) {
-                    alert(`Invalid JSON for parameter "${paramName}": ${e.message}`);
-                    hasError = true;
-                    return;
-                }
-            }
-        } else {
-            value = input.value || undefined;
-        }
-        
-        // Only add parameter if it has a value
-        if (value !== undefined && value !== '') {
-            params[paramName] = value;
-        }
-    });
-    
-    if (hasError) return;
+    // Errors are shown next to the fields; the modal stays open until they're fixed
+    const result = modalForm.collect();
+    if (!result.valid) return;
     
-    // Close modal
+    const toolIndex = currentToolIndex;
     closeParamModal();
-    
-    // Execute tool with parameters
-    executeToolDirect(currentToolIndex, params);
+    executeToolDirect(toolIndex, result.value);
 }
 
 function executeToolDirect(toolIndex, params) {
@@ -245,11 +158,9 @@ function executeToolDirect(toolIndex, params) {
     if (!tool) return;
     
     executedTools.add(toolIndex);
-    const button = document.querySelector(`[data-tool-index="${toolIndex}"]`);
-    if (button) {
-        button.style.background = '#28a745';
-        button.style.boxShadow = '0 2px 4px rgba(40, 167, 69, 0.25)';
-    }
+    failedTools.delete(toolIndex);
+    savedToolArguments[tool.name] = params;
+    showToolOutcome(toolIndex);
     
     vscode.postMessage({ 
         command: 'runMcpTool', 
@@ -259,155 +170,587 @@ function executeToolDirect(toolIndex, params) {
     });
 }
 
-function runCommand(command) {
-    vscode.postMessage({ command: command });
+function openResultModal(runId, toolName) {
+    currentResultRunId = runId;
+    const title = document.getElementById('result-tool-name');
+    const status = document.getElementById('result-status');
+    const body = document.getElementById('result-body');
+    if (title) title.textContent = toolName;
+    if (status) {
+        status.className = 'result-status running';
+        status.textContent = '⏳ Running...';
+    }
+    if (body) body.innerHTML = '';
+    updateResultProgress();
+    const modal = document.getElementById('result-modal');
+    if (modal) modal.classList.add('active');
 }
 
-function configureAgent() {
-    const agentChoice = document.querySelector('input[name="agent"]:checked').value;
-    const agentWarning = document.getElementById('agent-warning');
-    if (agentChoice === 'cline') {
-        clineConfigured = true;
-    } else if (agentChoice === 'claude') {
-        claudeConfigured = true;
-    } else if (agentChoice === 'copilot') {
-        copilotConfigured = true;
+function closeResultModal() {
+    const modal = document.getElementById('result-modal');
+    if (modal) modal.classList.remove('active');
+    currentResultRunId = null;
+}
+
+function cancelResultRun() {
+    if (currentResultRunId !== null) cancelToolRun(currentResultRunId);
+}
+
+function cancelToolRun(runId) {
+    vscode.postMessage({ command: 'cancelToolRun', runId });
+}
+
+function startToolRun(runId, toolName) {
+    activeToolRuns.set(runId, { toolName, progress: null });
+    renderToolRuns(toolName);
+    openResultModal(runId, toolName);
+}
+
+function updateToolProgress(message) {
+    const run = activeToolRuns.get(message.runId);
+    if (!run) return;
+    run.progress = { progress: message.progress, total: message.total, message: message.message };
+    renderToolRuns(run.toolName);
+    if (currentResultRunId === message.runId) updateResultProgress();
+}
+
+function finishToolRun(runId) {
+    const run = activeToolRuns.get(runId);
+    if (!run) return;
+    activeToolRuns.delete(runId);
+    renderToolRuns(run.toolName);
+}
+
+function describeProgress(progress) {
+    if (!progress) return 'Running...';
+    const amount = progress.total ? Math.round(Math.min(1, progress.progress / progress.total) * 100) + '%' : null;
+    return [amount, progress.message].filter(Boolean).join(' · ') || 'Running...';
+}
+
+// A bar without a total just shows that something is happening
+function setProgressBar(bar, progress) {
+    const determinate = Boolean(progress && progress.total);
+    bar.classList.toggle('indeterminate', !determinate);
+    bar.firstElementChild.style.width = determinate ? Math.min(100, progress.progress / progress.total * 100) + '%' : '';
+}
+
+function updateResultProgress() {
+    const run = activeToolRuns.get(currentResultRunId);
+    const bar = document.getElementById('result-progress');
+    const cancel = document.getElementById('result-cancel');
+    if (bar) {
+        bar.style.display = run ? 'block' : 'none';
+        if (run) setProgressBar(bar, run.progress);
     }
-    if (agentWarning) {
+    if (cancel) cancel.style.display = run ? 'inline-block' : 'none';
+    const status = document.getElementById('result-status');
+    if (run && status) status.textContent = '⏳ ' + describeProgress(run.progress);
+}
+
+// Every running call of a tool gets a row with its progress in the tool's card
+function renderToolRuns(toolName) {
+    const toolIndex = availableTools.findIndex(tool => tool.name === toolName);
+    const container = document.querySelector(`[data-tool-runs="${toolIndex}"]`);
+    if (!container) return;
+    
+    container.innerHTML = '';
+    activeToolRuns.forEach((run, runId) => {
+        if (run.toolName !== toolName) return;
+        const row = document.createElement('div');
+        row.className = 'tool-run';
+        const bar = document.createElement('div');
+        bar.className = 'tool-progress';
+        bar.appendChild(document.createElement('div'));
+        setProgressBar(bar, run.progress);
+        row.appendChild(bar);
+        const text = document.createElement('span');
+        text.className = 'tool-run-text';
+        text.textContent = describeProgress(run.progress);
+        text.title = text.textContent;
+        row.appendChild(text);
+        const show = document.createElement('button');
+        show.className = 'btn-secondary';
+        show.textContent = 'Show';
+        show.addEventListener('click', () => {
+            openResultModal(runId, toolName);
+        });
+        row.appendChild(show);
+        const cancel = document.createElement('button');
+        cancel.className = 'btn-secondary';
+        cancel.textContent = 'Cancel';
+        cancel.addEventListener('click', () => cancelToolRun(runId));
+        row.appendChild(cancel);
+        container.appendChild(row);
+    });
+}
+
+function markToolOutcome(toolName, status) {
+    const toolIndex = availableTools.findIndex(tool => tool.name === toolName);
+    if (toolIndex === -1) return;
+    executedTools.add(toolIndex);
+    if (status === 'error') {
+        failedTools.add(toolIndex);
+    } else {
+        failedTools.delete(toolIndex);
+    }
+    showToolOutcome(toolIndex);
+}
+
+// Colours a tool's header Run button by how its last run went
+function showToolOutcome(toolIndex) {
+    const button = document.querySelector(`[data-tool-index="${toolIndex}"]`);
+    if (!button) return;
+    button.classList.toggle('failed', failedTools.has(toolIndex));
+    button.classList.toggle('succeeded', executedTools.has(toolIndex) && !failedTools.has(toolIndex));
+}
+
+function showToolResult(result) {
+    finishToolRun(result.runId);
+    if (!result.cancelled) markToolOutcome(result.toolName, result.status);
+    // A result for a run the user already closed doesn't pop up again
+    if (currentResultRunId !== result.runId) return;
+    
+    updateResultProgress();
+    const status = document.getElementById('result-status');
+    const body = document.getElementById('result-body');
+    if (status) {
+        const seconds = (result.durationMs / 1000).toFixed(1);
+        status.className = 'result-status ' + (result.cancelled ? 'cancelled' : result.status);
+        if (result.cancelled) {
+            status.textContent = '⏹ Cancelled after ' + seconds + 's';
+        } else if (result.error) {
+            status.textContent = '❌ Call failed: ' + result.error;
+        } else if (result.status === 'error') {
+            status.textContent = '❌ The tool reported an error (' + seconds + 's)';
+        } else {
+            status.textContent = '✅ Completed in ' + seconds + 's';
+        }
+    }
+    if (!body) return;
+    
+    body.innerHTML = '';
+    result.blocks.forEach(block => body.appendChild(renderResultBlock(result.runId, block)));
+    if (result.blocks.length === 0 && !result.error && !result.structuredContent) {
+        const empty = document.createElement('div');
+        empty.className = 'no-params-message';
+        empty.textContent = 'The tool returned no content.';
+        body.appendChild(empty);
+    }
+    
+    if (result.structuredContent) {
+        const title = document.createElement('div');
+        title.className = 'result-section-title';
+        title.textContent = 'Structured content';
+        body.appendChild(title);
+        const pre = document.createElement('pre');
+        pre.className = 'result-block';
+        pre.textContent = result.structuredContent;
+        body.appendChild(pre);
+    }
+    if (result.schemaErrors && result.schemaErrors.length > 0) {
+        const title = document.createElement('div');
+        title.className = 'result-section-title';
+        title.textContent = '⚠️ Output does not match the tool\'s outputSchema';
+        body.appendChild(title);
+        const list = document.createElement('ul');
+        list.className = 'result-schema-errors';
+        result.schemaErrors.forEach(error => {
+            const item = document.createElement('li');
+            item.textContent = error;
+            list.appendChild(item);
+        });
+        body.appendChild(list);
+    }
+}
+
+function renderResultBlock(runId, block) {
+    const element = document.createElement('div');
+    element.className = 'result-block';
+    
+    switch (block.kind) {
+        case 'markdown':
+            // Rendered by the extension with raw HTML disabled
+            element.innerHTML = block.html;
+            break;
+        case 'image': {
+            const image = document.createElement('img');
+            image.src = block.src;
+            image.alt = block.mimeType;
+            element.appendChild(image);
+            break;
+        }
+        case 'audio': {
+            const audio = document.createElement('audio');
+            audio.controls = true;
+            audio.src = block.src;
+            element.appendChild(audio);
+            break;
+        }
+        case 'resource':
+        case 'link': {
+            const card = document.createElement('div');
+            card.className = 'result-resource';
+            const header = document.createElement('div');
+            header.className = 'result-resource-header';
+            const label = document.createElement('div');
+            if (block.kind === 'link') {
+                const name = document.createElement('strong');
+                name.textContent = block.name;
+                label.appendChild(name);
+            }
+            const uri = document.createElement('div');
+            uri.className = 'result-resource-uri';
+            uri.textContent = block.uri + (block.mimeType ? ' (' + block.mimeType + ')' : '');
+            label.appendChild(uri);
+            const open = document.createElement('button');
+            open.textContent = 'Open';
+            open.addEventListener('click', () => vscode.postMessage({ command: 'openToolContent', runId: runId, index: block.index }));
+            header.appendChild(label);
+            header.appendChild(open);
+            card.appendChild(header);
+            if (block.description || block.preview) {
+                const pre = document.createElement(block.preview ? 'pre' : 'div');
+                pre.textContent = block.preview || block.description;
+                card.appendChild(pre);
+            }
+            element.appendChild(card);
+            break;
+        }
+        default: {
+            const pre = document.createElement('pre');
+            pre.textContent = block.json;
+            element.appendChild(pre);
+        }
+    }
+    return element;
+}
+
+function runStep(stepId) {
+    const agentId = getSelectedAgentId();
+    if (!agentId) return;
+    if (usesAgent(getStepInfo(stepId))) {
+        configuredAgents.add(agentId);
+        const agentWarning = document.getElementById('agent-warning');
+        if (agentWarning) {
+            agentWarning.classList.remove('show');
+        }
+    }
+    vscode.postMessage({ command: 'runQuickStartStep', stepId: stepId, agentChoice: agentId, folder: selectedFolder });
+}
+
+function getSelectedAgentId() {
+    const selected = document.querySelector('input[name="agent"]:checked');
+    return selected ? selected.value : null;
+}
+
+function getAgentInfo(agentId) {
+    return agents.find(agent => agent.id === agentId);
+}
+
+function renderAgents(agentList, preferredAgent) {
+    const previous = getSelectedAgentId();
+    agents = agentList || [];
+    // Until the user picks one, the agent from bluetext.preferredAgent is selected
+    const initial = agents.some(agent => agent.id === preferredAgent) ? preferredAgent : agents.length > 0 ? agents[0].id : null;
+    const container = document.getElementById('agent-selection');
+    if (!container) return;
+    
+    container.innerHTML = '';
+    agents.forEach(agent => {
+        const label = document.createElement('label');
+        const radio = document.createElement('input');
+        radio.type = 'radio';
+        radio.name = 'agent';
+        radio.value = agent.id;
+        radio.checked = agent.id === (previous || initial);
+        radio.addEventListener('change', () => onAgentChanged(agent.id));
+        label.appendChild(radio);
+        label.appendChild(document.createTextNode(' ' + agent.displayName));
+        if (!agent.detected) {
+            const hint = document.createElement('span');
+            hint.className = 'agent-not-detected';
+            hint.textContent = 'not detected';
+            label.appendChild(hint);
+        }
+        container.appendChild(label);
+    });
+    
+    renderAllSteps();
+}
+
+function onAgentChanged(agentId) {
+    const agentWarning = document.getElementById('agent-warning');
+    const isConfigured = configuredAgents.has(agentId);
+    
+    // The agent step shows whether the newly chosen agent has been configured
+    quickStartSteps.filter(usesAgent).forEach(step => renderStepStatus(step.id, isConfigured ? 'done' : 'pending'));
+    
+    if (agentWarning && !isConfigured && configuredAgents.size > 0) {
+        agentWarning.classList.add('show');
+    } else if (agentWarning) {
         agentWarning.classList.remove('show');
     }
-    const commandMap = {
-        'cline': 'configureCline',
-        'claude': 'configureClaudeCode',
-        'copilot': 'configureCopilot'
-    };
-    vscode.postMessage({ command: commandMap[agentChoice] });
 }
 
-function startQuickSetup() {
-    const agentChoice = document.querySelector('input[name="agent"]:checked').value;
+function setRepoRef(repoRef) {
+    vscode.postMessage({ command: 'setRepoRef', repoRef: repoRef.trim() });
+}
+
+function showRepoRef(repoRef) {
+    const input = document.getElementById('repo-ref-input');
+    if (input) {
+        input.value = repoRef || '';
+    }
+}
+
+function renderConfigDrift(drifts) {
+    const card = document.getElementById('drift-card');
+    const list = document.getElementById('drift-list');
+    if (!card || !list) return;
+    
+    list.innerHTML = '';
+    (drifts || []).forEach(drift => {
+        const item = document.createElement('li');
+        const title = document.createElement('strong');
+        title.textContent = drift.agentName + (drift.folderName ? ' · ' + drift.folderName : '') + ' (' + drift.serverName + ')';
+        item.appendChild(title);
+        item.appendChild(document.createTextNode(': ' + drift.differences.join('; ')));
+        if (drift.configPath) {
+            item.title = drift.configPath;
+        }
+        list.appendChild(item);
+    });
+    card.classList.toggle('show', (drifts || []).length > 0);
+}
+
+function renderDiagnostics(checks) {
+    const card = document.getElementById('diagnostics-card');
+    const list = document.getElementById('diagnostics-list');
+    if (!card || !list) return;
+    
+    list.innerHTML = '';
+    (checks || []).forEach(check => {
+        const item = document.createElement('li');
+        item.className = check.status;
+        const title = document.createElement('strong');
+        title.textContent = check.label;
+        item.appendChild(title);
+        item.appendChild(document.createTextNode(': ' + check.detail));
+        if (check.fixTitle) {
+            const button = document.createElement('button');
+            button.textContent = check.fixTitle;
+            button.addEventListener('click', () => vscode.postMessage({ command: 'fixDiagnostic', checkId: check.id }));
+            item.appendChild(button);
+        }
+        list.appendChild(item);
+    });
+    card.classList.toggle('show', (checks || []).length > 0);
+}
+
+function exportDiagnostics() {
+    vscode.postMessage({ command: 'exportDiagnostics' });
+}
+
+function repairDrift() {
+    vscode.postMessage({ command: 'repairDrift' });
+}
+
+function startQuickSetup(options) {
+    const agentChoice = getSelectedAgentId();
+    if (!agentChoice) return;
     const agentWarning = document.getElementById('agent-warning');
     if (agentWarning) {
         agentWarning.classList.remove('show');
     }
-    vscode.postMessage({ command: 'quickStart', agentChoice: agentChoice });
+    vscode.postMessage(Object.assign({
+        command: 'quickStart',
+        agentChoice: agentChoice,
+        folder: selectedFolder,
+        skip: Array.from(skippedSteps)
+    }, options));
 }
 
-document.addEventListener('DOMContentLoaded', function() {
-    const agentRadios = document.querySelectorAll('input[name="agent"]');
-    const step3Button = document.getElementById('step-3-button');
-    const agentWarning = document.getElementById('agent-warning');
+function setWorkspaceFolders(folders) {
+    workspaceFolders = folders || [];
+    const folderCard = document.getElementById('folder-card');
+    const folderSelect = document.getElementById('folder-select');
     
-    agentRadios.forEach(radio => {
-        radio.addEventListener('change', function() {
-            const selectedAgent = this.value;
-            const agentName = selectedAgent === 'cline' ? 'Cline' : selectedAgent === 'claude' ? 'Claude' : 'Copilot';
-            const isConfigured = selectedAgent === 'cline' ? clineConfigured : selectedAgent === 'claude' ? claudeConfigured : copilotConfigured;
-            
-            if (step3Button) {
-                step3Button.textContent = isConfigured ? '✓ ' + agentName : agentName;
-            }
-            
-            const stepNumber = document.getElementById('step-3');
-            const stepContainer = document.querySelector('.step[data-step="3"]');
-            const stepsContainer = document.getElementById('steps-container');
-            
-            if (stepNumber) {
-                stepNumber.classList.remove('pending', 'doing', 'done', 'error');
-                stepNumber.classList.add(isConfigured ? 'done' : 'pending');
-            }
-            if (stepContainer) {
-                stepContainer.classList.remove('pending', 'doing', 'done', 'error');
-                stepContainer.classList.add(isConfigured ? 'done' : 'pending');
-            }
-            if (stepsContainer) {
-                stepsContainer.classList.remove('step-3-pending', 'step-3-doing', 'step-3-done', 'step-3-error');
-                stepsContainer.classList.add(isConfigured ? 'step-3-done' : 'step-3-pending');
-            }
-            
-            if (agentWarning && !isConfigured && (clineConfigured || claudeConfigured || copilotConfigured)) {
-                agentWarning.classList.add('show');
-            } else if (agentWarning) {
-                agentWarning.classList.remove('show');
-            }
+    const stillExists = selectedFolder === 'all' || workspaceFolders.some(folder => folder.uri === selectedFolder);
+    if (!stillExists) {
+        selectedFolder = workspaceFolders.length > 0 ? workspaceFolders[0].uri : null;
+    }
+    
+    if (folderSelect) {
+        folderSelect.innerHTML = '';
+        workspaceFolders.forEach(folder => {
+            const option = document.createElement('option');
+            option.value = folder.uri;
+            option.textContent = folder.name + ' (port ' + folder.port + ')';
+            folderSelect.appendChild(option);
         });
+        if (workspaceFolders.length > 1) {
+            const option = document.createElement('option');
+            option.value = 'all';
+            option.textContent = 'All folders';
+            folderSelect.appendChild(option);
+        }
+        if (selectedFolder) {
+            folderSelect.value = selectedFolder;
+        }
+    }
+    if (folderCard) {
+        folderCard.classList.toggle('show', workspaceFolders.length > 1);
+    }
+    
+    renderAllSteps();
+}
+
+function selectFolder(folderUri) {
+    selectedFolder = folderUri;
+    if (folderUri !== 'all') {
+        vscode.postMessage({ command: 'selectFolder', folder: folderUri });
+    }
+    saveViewState();
+    renderAllSteps();
+}
+
+// Saved with the panel, so a wizard restored after a reload opens where it was
+function saveViewState() {
+    vscode.setState({ activeTab, selectedFolder, skippedSteps: Array.from(skippedSteps) });
+}
+
+function restoreViewState() {
+    const state = vscode.getState();
+    if (!state) return;
+    (state.skippedSteps || []).forEach(stepId => skippedSteps.add(stepId));
+    if (state.selectedFolder) {
+        selectFolder(state.selectedFolder);
+    }
+    if (state.activeTab) {
+        switchTab(state.activeTab);
+    }
+}
+
+function setStepStatuses(statuses) {
+    Object.keys(statuses || {}).forEach(folderUri => {
+        stepStatuses[folderUri] = Object.assign({}, statuses[folderUri]);
     });
-});
+    renderAllSteps();
+}
 
-function updateStepStatus(stepNumber, status) {
-    const stepElement = document.getElementById('step-' + stepNumber);
-    const stepContainer = document.querySelector('.step[data-step="' + stepNumber + '"]');
-    const stepsContainer = document.getElementById('steps-container');
-    const stepTitle = document.getElementById('step-' + stepNumber + '-title');
-    
-    if (stepNumber === 3 && status === 'done') {
-        const agentChoice = document.querySelector('input[name="agent"]:checked').value;
-        if (agentChoice === 'cline') {
-            clineConfigured = true;
-        } else if (agentChoice === 'claude') {
-            claudeConfigured = true;
-        } else if (agentChoice === 'copilot') {
-            copilotConfigured = true;
-        }
+function getStepStatus(folderUri, stepId) {
+    return (stepStatuses[folderUri] && stepStatuses[folderUri][stepId]) || 'pending';
+}
+
+// With "All folders" selected a step shows the least finished state across folders
+function getDisplayedStepStatus(stepId) {
+    if (selectedFolder !== 'all') {
+        return getStepStatus(selectedFolder, stepId);
     }
+    const statuses = workspaceFolders.map(folder => getStepStatus(folder.uri, stepId));
+    if (statuses.includes('error')) return 'error';
+    if (statuses.includes('doing')) return 'doing';
+    if (statuses.length > 0 && statuses.every(status => status === 'done')) return 'done';
+    return 'pending';
+}
+
+function getStepInfo(stepId) {
+    return quickStartSteps.find(step => step.id === stepId);
+}
+
+function usesAgent(step) {
+    return Boolean(step) && step.buttonLabel.includes('{agent}');
+}
+
+// Fills in the placeholders the pipeline's step labels may use
+function formatStepLabel(text) {
+    const agent = getAgentInfo(getSelectedAgentId());
+    const folder = workspaceFolders.find(f => f.uri === selectedFolder);
+    const endpoint = selectedFolder === 'all' ? 'each folder\'s port' : folder ? folder.endpoint : 'localhost:31338';
+    return text.split('{agent}').join(agent ? agent.shortName : 'Agent').split('{endpoint}').join(endpoint);
+}
+
+// The steps come from the Quick Start pipeline in src/quickStart.ts
+function renderSteps(steps) {
+    quickStartSteps = steps || [];
+    const container = document.getElementById('steps-container');
+    if (!container) return;
     
-    if (stepElement) {
-        stepElement.classList.remove('pending', 'doing', 'done', 'error');
-        stepElement.classList.add(status);
+    container.innerHTML = '';
+    quickStartSteps.forEach((step, index) => {
+        const element = cloneTemplate('step-template');
+        element.dataset.step = step.id;
+        element.querySelector('.step-number').textContent = String(index);
+        const skip = element.querySelector('.step-skip input');
+        skip.checked = skippedSteps.has(step.id);
+        skip.addEventListener('change', () => setStepSkipped(step.id, skip.checked));
+        container.appendChild(element);
+    });
+    renderAllSteps();
+}
+
+function setStepSkipped(stepId, skipped) {
+    if (skipped) {
+        skippedSteps.add(stepId);
+    } else {
+        skippedSteps.delete(stepId);
     }
-    if (stepContainer) {
-        stepContainer.classList.remove('pending', 'doing', 'done', 'error');
-        stepContainer.classList.add(status);
+    saveViewState();
+    renderStepStatus(stepId, getDisplayedStepStatus(stepId));
+}
+
+function renderAllSteps() {
+    quickStartSteps.forEach(step => renderStepStatus(step.id, getDisplayedStepStatus(step.id)));
+    updateResumeButton();
+}
+
+// Resuming picks up at the step that failed, so it is offered only after a failure
+function updateResumeButton() {
+    const button = document.getElementById('resume-quick-start');
+    if (button) {
+        button.classList.toggle('show', quickStartSteps.some(step => getDisplayedStepStatus(step.id) === 'error'));
+    }
+}
+
+function updateStepStatus(stepId, status, folderUri) {
+    const key = folderUri || (selectedFolder !== 'all' ? selectedFolder : null);
+    if (!key) {
+        renderStepStatus(stepId, status);
+        return;
     }
-    if (stepsContainer) {
-        stepsContainer.classList.remove('step-' + stepNumber + '-pending', 'step-' + stepNumber + '-doing', 'step-' + stepNumber + '-done', 'step-' + stepNumber + '-error');
-        stepsContainer.classList.add('step-' + stepNumber + '-' + status);
+    stepStatuses[key] = stepStatuses[key] || {};
+    stepStatuses[key][stepId] = status;
+    if (selectedFolder === 'all' || selectedFolder === key) {
+        renderStepStatus(stepId, getDisplayedStepStatus(stepId));
+        updateResumeButton();
     }
+}
+
+function renderStepStatus(stepId, status) {
+    const step = getStepInfo(stepId);
+    const element = document.querySelector('.step[data-step="' + stepId + '"]');
+    if (!step || !element) return;
     
-    if (stepTitle) {
-        if (status === 'done') {
-            stepTitle.textContent = stepTitle.getAttribute('data-completed');
-        } else {
-            stepTitle.textContent = stepTitle.getAttribute('data-original');
-        }
+    if (usesAgent(step) && status === 'done' && getSelectedAgentId()) {
+        configuredAgents.add(getSelectedAgentId());
     }
     
-    if (stepNumber === 3) {
-        const button = document.getElementById('step-3-button');
-        const agentChoice = document.querySelector('input[name="agent"]:checked').value;
-        if (button) {
-            if (status === 'done') {
-                const completedText = button.getAttribute('data-completed-' + agentChoice);
-                const text = completedText.replace('✓ ', '');
-                button.innerHTML = '<span class="checkmark-icon"><svg viewBox="0 0 16 16"><polyline points="3,8 6,11 13,4"></polyline></svg></span>' + text;
-            } else {
-                button.textContent = button.getAttribute('data-original-' + agentChoice);
-            }
-        }
+    element.classList.remove('pending', 'doing', 'done', 'error');
+    element.classList.add(status);
+    element.classList.toggle('skipped', skippedSteps.has(stepId));
+    const number = element.querySelector('.step-number');
+    number.classList.remove('pending', 'doing', 'done', 'error');
+    number.classList.add(status);
+    element.querySelector('.step-text').textContent = formatStepLabel(status === 'done' ? step.completedTitle : step.title);
+    
+    const button = element.querySelector('.step-actions button');
+    if (status === 'done') {
+        button.innerHTML = '<span class="checkmark-icon"><svg viewBox="0 0 16 16"><polyline points="3,8 6,11 13,4"></polyline></svg></span>' + escapeHtml(formatStepLabel(step.completedButtonLabel));
     } else {
-        const button = document.getElementById('step-' + stepNumber + '-button');
-        if (button) {
-            if (status === 'done') {
-                const completedText = button.getAttribute('data-completed');
-                const text = completedText.replace('✓ ', '');
-                button.innerHTML = '<span class="checkmark-icon"><svg viewBox="0 0 16 16"><polyline points="3,8 6,11 13,4"></polyline></svg></span>' + text;
-                // Disable step 4 button when MCP server is running
-                if (stepNumber === 4) {
-                    button.disabled = true;
-                    button.style.opacity = '0.6';
-                    button.style.cursor = 'not-allowed';
-                }
-            } else {
-                button.textContent = button.getAttribute('data-original');
-                // Re-enable step 4 button if status changes
-                if (stepNumber === 4) {
-                    button.disabled = false;
-                    button.style.opacity = '1';
-                    button.style.cursor = 'pointer';
-                }
-            }
-        }
+        button.textContent = status === 'error' ? 'Retry' : formatStepLabel(step.buttonLabel);
     }
+    // A running server can't be started again
+    button.disabled = step.disableWhenDone && status === 'done';
 }
 
 function refreshTools() {
@@ -425,7 +768,7 @@ function refreshTools() {
     if (toolsEmpty) toolsEmpty.style.display = 'none';
 }
 
-function updateTools(tools, error) {
+function updateTools(tools, error, savedArguments) {
     const toolsCard = document.getElementById('tools-card');
     const toolsLoading = document.getElementById('tools-loading');
     const toolsError = document.getElementById('tools-error');
@@ -450,137 +793,340 @@ function updateTools(tools, error) {
     }
     
     availableTools = tools;
+    savedToolArguments = savedArguments || {};
+    toolForms.clear();
     
     if (toolsError) toolsError.style.display = 'none';
     if (toolsEmpty) toolsEmpty.style.display = 'none';
     if (toolsList) {
         toolsList.style.display = 'block';
-        let html = '<div style="display: grid; gap: 12px;">';
-        
+        const grid = document.createElement('div');
+        grid.className = 'tools-grid';
+        tools.forEach((tool, index) => grid.appendChild(createToolItem(tool, index)));
+        const total = document.createElement('div');
+        total.className = 'tools-total';
+        total.textContent = `Total: ${tools.length} tool${tools.length !== 1 ? 's' : ''}`;
+        toolsList.replaceChildren(grid, total);
         tools.forEach((tool, index) => {
-            const isExecuted = executedTools.has(index);
-            const buttonBg = isExecuted ? '#28a745' : '#1e3c72';
-            const buttonShadow = isExecuted ? '0 2px 4px rgba(40, 167, 69, 0.25)' : '0 2px 6px rgba(42, 82, 152, 0.25)';
-            
-            // Generate parameter form HTML
-            const schema = tool.inputSchema;
-            const hasParams = schema && schema.properties && Object.keys(schema.properties).length > 0;
-            
-            // Check if all required parameters have default values
-            let hasDefaultsForRequired = false;
-            if (hasParams) {
-                const required = schema.required || [];
-                const properties = schema.properties;
-                
-                if (required.length === 0) {
-                    // No required parameters means we can run with defaults/empty params
-                    hasDefaultsForRequired = true;
-                } else {
-                    // Check if all required parameters have default values
-                    hasDefaultsForRequired = required.every(paramName => {
-                        return properties[paramName] && properties[paramName].default !== undefined;
-                    });
-                }
-            }
-            
-            let paramsHtml = '';
-            
-            if (hasParams) {
-                const properties = schema.properties;
-                const required = schema.required || [];
-                
-                Object.keys(properties).forEach(paramName => {
-                    const param = properties[paramName];
-                    const isRequired = required.includes(paramName);
-                    const paramType = param.type || 'string';
-                    const description = param.description || '';
-                    const defaultValue = param.default;
-                    
-                    paramsHtml += '<div class="tool-param-group">';
-                    paramsHtml += `<label class="tool-param-label">${escapeHtml(paramName)}`;
-                    if (isRequired) {
-                        paramsHtml += '<span class="tool-param-required">*</span>';
-                    }
-                    paramsHtml += '</label>';
-                    
-                    if (description) {
-                        paramsHtml += `<div class="tool-param-description">${escapeHtml(description)}</div>`;
-                    }
-                    
-                    // Generate appropriate input based on type with default values
-                    if (paramType === 'boolean') {
-                        const checked = defaultValue === true ? 'checked' : '';
-                        paramsHtml += `<input type="checkbox" class="tool-param-input" data-param="${escapeHtml(paramName)}" data-type="boolean" ${checked}>`;
-                    } else if (paramType === 'number' || paramType === 'integer') {
-                        const value = defaultValue !== undefined ? ` value="${defaultValue}"` : '';
-                        paramsHtml += `<input type="number" class="tool-param-input" data-param="${escapeHtml(paramName)}" data-type="${paramType}" ${isRequired ? 'required' : ''} placeholder="Enter ${paramName}"${value}>`;
-                    } else if (paramType === 'array') {
-                        const value = defaultValue !== undefined ? escapeHtml(JSON.stringify(defaultValue, null, 2)) : '';
-                        paramsHtml += `<textarea class="tool-param-input" data-param="${escapeHtml(paramName)}" data-type="array" rows="3" ${isRequired ? 'required' : ''} placeholder="Enter JSON array, e.g., [&quot;item1&quot;, &quot;item2&quot;]">${value}</textarea>`;
-                    } else if (paramType === 'object') {
-                        const value = defaultValue !== undefined ? escapeHtml(JSON.stringify(defaultValue, null, 2)) : '';
-                        paramsHtml += `<textarea class="tool-param-input" data-param="${escapeHtml(paramName)}" data-type="object" rows="4" ${isRequired ? 'required' : ''} placeholder="Enter JSON object, e.g., {&quot;key&quot;: &quot;value&quot;}">${value}</textarea>`;
-                    } else {
-                        const value = defaultValue !== undefined ? ` value="${escapeHtml(String(defaultValue))}"` : '';
-                        paramsHtml += `<input type="text" class="tool-param-input" data-param="${escapeHtml(paramName)}" data-type="string" ${isRequired ? 'required' : ''} placeholder="Enter ${paramName}"${value}>`;
-                    }
-                    
-                    paramsHtml += '</div>';
-                });
-                
-                // Add run button in the params section
-                paramsHtml = `<div class="tool-params-section" data-tool-params="${index}">${paramsHtml}<div class="tool-actions"><button onclick="runTool(${index}); event.stopPropagation();" style="background: #1e3c72; padding: 6px 16px; font-size: 12px; border-radius: 4px; box-shadow: 0 2px 6px rgba(42, 82, 152, 0.25); transition: all 0.2s ease; display: flex; align-items: center; gap: 4px; border: none; color: white; cursor: pointer;"><svg width="12" height="13" viewBox="0 0 71.884262 76.735161" style="flex-shrink: 0;"><path style="fill:none;stroke:#ffffff;stroke-width:10;stroke-linecap:square;stroke-linejoin:miter" d="m 12.259,2 c -4.05249,0.15214 -7.259192,3.48167 -7.258988,7.53701 v 25.65631 0.39946 25.65632 c -1.58e-4,5.79375 6.261243,9.42401 11.289233,6.54533 l 45.286075,-23.39342 a 10.1794,10.1794 89.96398 0 0 -0.0114,-18.09387 L 16.28924,2.99196 c -1.224231,-0.70098 -2.620523,-1.04455 -4.030245,-0.99167 z" /></svg>Run Tool</button></div></div>`;
-            }
-            
-            // Generate header action based on parameter status
-            let headerAction = '';
-            if (hasParams && hasDefaultsForRequired) {
-                // Has parameters but all required ones have defaults - show badge and enabled run button
-                headerAction = `
-                    <div class="tool-header-actions">
-                        <div class="tool-info-badge">
-                            <span>Defaults provided</span>
-                        </div>
-                        <button data-tool-index="${index}" onclick="runTool(${index}); event.stopPropagation();" style="background: ${buttonBg}; padding: 6px 16px; font-size: 12px; border-radius: 4px; box-shadow: ${buttonShadow}; transition: all 0.2s ease; display: flex; align-items: center; gap: 4px; border: none; color: white; cursor: pointer;"><svg width="12" height="13" viewBox="0 0 71.884262 76.735161" style="flex-shrink: 0;"><path style="fill:none;stroke:#ffffff;stroke-width:10;stroke-linecap:square;stroke-linejoin:miter" d="m 12.259,2 c -4.05249,0.15214 -7.259192,3.48167 -7.258988,7.53701 v 25.65631 0.39946 25.65632 c -1.58e-4,5.79375 6.261243,9.42401 11.289233,6.54533 l 45.286075,-23.39342 a 10.1794,10.1794 89.96398 0 0 -0.0114,-18.09387 L 16.28924,2.99196 c -1.224231,-0.70098 -2.620523,-1.04455 -4.030245,-0.99167 z" /></svg>Run</button>
-                    </div>`;
-            } else if (hasParams && !hasDefaultsForRequired) {
-                // Has parameters but missing defaults for required ones - show badge and disabled run button
-                headerAction = `
-                    <div class="tool-header-actions">
-                        <div class="tool-info-badge">
-                            <span>Expects parameters</span>
-                        </div>
-                        <button class="tool-run-button-disabled" style="padding: 6px 16px; font-size: 12px; border-radius: 4px; transition: all 0.2s ease; display: flex; align-items: center; gap: 4px; border: none; color: white;"><svg width="12" height="13" viewBox="0 0 71.884262 76.735161" style="flex-shrink: 0;"><path style="fill:none;stroke:#ffffff;stroke-width:10;stroke-linecap:square;stroke-linejoin:miter" d="m 12.259,2 c -4.05249,0.15214 -7.259192,3.48167 -7.258988,7.53701 v 25.65631 0.39946 25.65632 c -1.58e-4,5.79375 6.261243,9.42401 11.289233,6.54533 l 45.286075,-23.39342 a 10.1794,10.1794 89.96398 0 0 -0.0114,-18.09387 L 16.28924,2.99196 c -1.224231,-0.70098 -2.620523,-1.04455 -4.030245,-0.99167 z" /></svg>Run</button>
-                    </div>`;
-            } else {
-                // No parameters - show normal run button
-                headerAction = `<button data-tool-index="${index}" onclick="runTool(${index}); event.stopPropagation();" style="background: ${buttonBg}; padding: 6px 16px; font-size: 12px; border-radius: 4px; box-shadow: ${buttonShadow}; transition: all 0.2s ease; display: flex; align-items: center; gap: 4px;"><svg width="12" height="13" viewBox="0 0 71.884262 76.735161" style="flex-shrink: 0;"><path style="fill:none;stroke:#ffffff;stroke-width:10;stroke-linecap:square;stroke-linejoin:miter" d="m 12.259,2 c -4.05249,0.15214 -7.259192,3.48167 -7.258988,7.53701 v 25.65631 0.39946 25.65632 c -1.58e-4,5.79375 6.261243,9.42401 11.289233,6.54533 l 45.286075,-23.39342 a 10.1794,10.1794 89.96398 0 0 -0.0114,-18.09387 L 16.28924,2.99196 c -1.224231,-0.70098 -2.620523,-1.04455 -4.030245,-0.99167 z" /></svg>Run</button>`;
+            mountToolForm(index, getInitialToolArguments(tool));
+            renderToolRuns(tool.name);
+        });
+    }
+}
+
+/**
+ * Builds one tool's card. Names and descriptions come from the server, so
+ * they are only ever set as text.
+ */
+function createToolItem(tool, index) {
+    const schema = tool.inputSchema;
+    const hasParams = schema && schema.properties && Object.keys(schema.properties).length > 0;
+    
+    // Check if all required parameters have default values
+    let hasDefaultsForRequired = false;
+    if (hasParams) {
+        const required = schema.required || [];
+        const properties = schema.properties;
+        
+        if (required.length === 0) {
+            // No required parameters means we can run with defaults/empty params
+            hasDefaultsForRequired = true;
+        } else {
+            // Check if all required parameters have a default or a previously used value
+            const saved = getInitialToolArguments(tool);
+            hasDefaultsForRequired = required.every(paramName => {
+                return saved[paramName] !== undefined || (properties[paramName] && properties[paramName].default !== undefined);
+            });
+        }
+    }
+    
+    const item = document.createElement('div');
+    item.className = 'tool-item';
+    item.dataset.tool = index;
+    
+    const header = document.createElement('div');
+    header.className = 'tool-header';
+    header.dataset.action = 'toggleTool';
+    const icon = document.createElement('div');
+    icon.className = 'tool-icon';
+    icon.appendChild(cloneTemplate('tool-icon-template'));
+    const title = document.createElement('div');
+    title.className = 'tool-title';
+    const name = document.createElement('h3');
+    name.textContent = tool.name;
+    title.append(name, cloneTemplate('expand-icon-template'));
+    header.append(icon, title);
+    
+    // Tools that can run without input get a Run button in the header
+    const headerRun = createRunButton('Run', !hasParams || hasDefaultsForRequired);
+    if (!hasParams || hasDefaultsForRequired) {
+        headerRun.dataset.toolIndex = index;
+    }
+    if (hasParams) {
+        const actions = document.createElement('div');
+        actions.className = 'tool-header-actions';
+        const badge = document.createElement('div');
+        badge.className = 'tool-info-badge';
+        const badgeText = document.createElement('span');
+        badgeText.textContent = !hasDefaultsForRequired
+            ? 'Expects parameters'
+            : Object.keys(getInitialToolArguments(tool)).length > 0 ? 'Last used values' : 'Defaults provided';
+        badge.appendChild(badgeText);
+        actions.append(badge, headerRun);
+        header.appendChild(actions);
+    } else {
+        header.appendChild(headerRun);
+    }
+    
+    const description = document.createElement('div');
+    description.className = 'tool-description';
+    const descriptionText = document.createElement('p');
+    descriptionText.textContent = tool.description || 'No description available';
+    description.appendChild(descriptionText);
+    
+    const runs = document.createElement('div');
+    runs.className = 'tool-runs';
+    runs.dataset.toolRuns = index;
+    item.append(header, description, runs);
+    
+    if (hasParams) {
+        // The form itself is built from the schema once the list is in the DOM
+        const params = document.createElement('div');
+        params.className = 'tool-params-section';
+        params.dataset.toolParams = index;
+        const form = document.createElement('div');
+        form.dataset.toolForm = index;
+        const actions = document.createElement('div');
+        actions.className = 'tool-actions';
+        const reset = document.createElement('button');
+        reset.className = 'btn-secondary';
+        reset.dataset.action = 'resetToolForm';
+        reset.title = 'Clear the form and use the schema defaults';
+        reset.textContent = 'Reset';
+        actions.append(createRunButton('Run Tool', true), reset);
+        params.append(form, actions);
+        item.appendChild(params);
+    }
+    
+    if (headerRun.dataset.toolIndex !== undefined) {
+        // Not in the document yet, so set the outcome on the button directly
+        headerRun.classList.toggle('failed', failedTools.has(index));
+        headerRun.classList.toggle('succeeded', executedTools.has(index) && !failedTools.has(index));
+    }
+    return item;
+}
+
+function createRunButton(label, enabled) {
+    const button = document.createElement('button');
+    button.className = enabled ? 'tool-run-button' : 'tool-run-button tool-run-button-disabled';
+    if (enabled) {
+        button.dataset.action = 'runTool';
+    }
+    button.append(cloneTemplate('run-icon-template'), label);
+    return button;
+}
+
+function cloneTemplate(id) {
+    return document.getElementById(id).content.firstElementChild.cloneNode(true);
+}
+
+function switchTab(tabName) {
+    document.querySelectorAll('.tab-panel').forEach(panel => {
+        panel.classList.remove('active');
+    });
+    
+    document.querySelectorAll('.tab-button').forEach(button => {
+        button.classList.remove('active');
+    });
+
+    document.getElementById(tabName + '-panel').classList.add('active');
+    
+    document.querySelector('.tab-button[data-tab="' + tabName + '"]').classList.add('active');
+    onTabShown(tabName);
+}
+
+// Resources and prompts are loaded the first time their tab is opened
+const loadedTabs = new Set();
+
+function onTabShown(tabName) {
+    activeTab = tabName;
+    saveViewState();
+    if (loadedTabs.has(tabName)) return;
+    if (tabName === 'resources') {
+        refreshResources();
+    } else if (tabName === 'prompts') {
+        refreshPrompts();
+    }
+}
+
+function showListState(name, state, text) {
+    const loading = document.getElementById(name + '-loading');
+    const error = document.getElementById(name + '-error');
+    const list = document.getElementById(name + '-list');
+    const empty = document.getElementById(name + '-empty');
+    if (loading) loading.style.display = state === 'loading' ? 'block' : 'none';
+    if (error) error.style.display = state === 'error' ? 'block' : 'none';
+    if (list) list.style.display = state === 'list' ? 'block' : 'none';
+    if (empty) empty.style.display = state === 'empty' ? 'block' : 'none';
+    const message = document.getElementById(name + '-' + state + '-message');
+    if (message && text) message.textContent = text;
+}
+
+function refreshResources() {
+    loadedTabs.add('resources');
+    showListState('resources', 'loading');
+    vscode.postMessage({ command: 'fetchMcpResources' });
+}
+
+function refreshPrompts() {
+    loadedTabs.add('prompts');
+    showListState('prompts', 'loading');
+    vscode.postMessage({ command: 'fetchMcpPrompts' });
+}
+
+function createMcpItem(title, buttonLabel, onClick) {
+    const item = document.createElement('div');
+    item.className = 'mcp-item';
+    const header = document.createElement('div');
+    header.className = 'mcp-item-header';
+    const heading = document.createElement('h3');
+    heading.className = 'mcp-item-title';
+    heading.textContent = title;
+    const button = document.createElement('button');
+    button.textContent = buttonLabel;
+    button.addEventListener('click', onClick);
+    header.appendChild(heading);
+    header.appendChild(button);
+    item.appendChild(header);
+    return item;
+}
+
+function appendMcpItemText(item, className, text) {
+    if (!text) return;
+    const element = document.createElement('div');
+    element.className = className;
+    element.textContent = text;
+    item.appendChild(element);
+}
+
+function renderResources(message) {
+    if (message.error) {
+        showListState('resources', 'error', message.error);
+        return;
+    }
+    const resources = message.resources || [];
+    const templates = message.templates || [];
+    if (resources.length === 0 && templates.length === 0) {
+        showListState('resources', 'empty', message.unsupported ? 'This server does not offer resources.' : 'No resources available.');
+        return;
+    }
+    
+    const list = document.getElementById('resources-list');
+    if (!list) return;
+    list.innerHTML = '';
+    
+    if (resources.length > 0) {
+        appendMcpItemText(list, 'mcp-section-title', 'Resources (' + resources.length + ')');
+        const grid = document.createElement('div');
+        grid.style.cssText = 'display: grid; gap: 12px;';
+        resources.forEach(resource => {
+            const item = createMcpItem(resource.title || resource.name || resource.uri, 'Open', () => {
+                vscode.postMessage({ command: 'openMcpResource', uri: resource.uri });
+            });
+            appendMcpItemText(item, 'mcp-item-uri', resource.uri + (resource.mimeType ? ' (' + resource.mimeType + ')' : ''));
+            appendMcpItemText(item, 'mcp-item-description', resource.description);
+            grid.appendChild(item);
+        });
+        list.appendChild(grid);
+    }
+    
+    if (templates.length > 0) {
+        appendMcpItemText(list, 'mcp-section-title', 'Resource templates (' + templates.length + ')');
+        const grid = document.createElement('div');
+        grid.style.cssText = 'display: grid; gap: 12px;';
+        templates.forEach(template => {
+            const properties = {};
+            template.variables.forEach(variable => { properties[variable] = { type: 'string' }; });
+            const form = createSchemaForm({ type: 'object', properties: properties, required: template.variables }, {});
+            const item = createMcpItem(template.title || template.name || template.uriTemplate, 'Open', () => {
+                const result = form.collect();
+                if (!result.valid) return;
+                vscode.postMessage({ command: 'openMcpResource', uri: template.uriTemplate, templateValues: result.value });
+            });
+            appendMcpItemText(item, 'mcp-item-uri', template.uriTemplate + (template.mimeType ? ' (' + template.mimeType + ')' : ''));
+            appendMcpItemText(item, 'mcp-item-description', template.description);
+            if (template.variables.length > 0) {
+                item.appendChild(form.element);
             }
-            
-            html += `
-                <div class="tool-item" style="background: #f3f4f5; border-left: 4px solid #2a5298; border-radius: 4px; overflow: hidden;">
-                    <div class="tool-header" onclick="toggleTool(event, ${index})" style="display: flex; align-items: center; gap: 12px; padding: 16px; cursor: pointer; user-select: none; transition: background-color 0.15s ease;" onmouseenter="this.style.backgroundColor='rgba(42, 82, 152, 0.04)'" onmouseleave="this.style.backgroundColor='transparent'">
-                        <div style="background: #2a5298; color: white; width: 32px; height: 32px; border-radius: 6px; display: flex; align-items: center; justify-content: center; flex-shrink: 0;"><svg viewBox="0 0 107.688 109.773" style="width: 20px; height: 20px;" xmlns="http://www.w3.org/2000/svg"><g transform="translate(-45.471,-18.226)"><path style="fill:#ffffff" d="m 125.866,18.410 c -10.741,1.436 -19.373,10.067 -20.810,20.808 -0.232,1.737 -0.232,4.595 0,6.331 1.437,10.741 10.068,19.373 20.810,20.810 1.737,0.232 4.595,0.232 6.331,0 10.927,-1.462 19.669,-10.369 20.876,-21.369 0.157,-1.433 0.105,-3.783 -0.194,-5.191 -0.274,-1.292 -2.066,-0.911 -3.771,0.793 l -8.082,8.076 c -0.979,0.979 -2.565,2.622 -3.808,3.216 -0.681,0.325 -1.396,0.535 -2.112,0.620 -1.719,0.206 -4.385,-1.075 -5.972,-1.821 -0.999,-0.470 -3.141,-1.429 -4.468,-2.567 -0.456,-0.391 -0.880,-0.816 -1.270,-1.273 -1.135,-1.329 -2.314,-3.950 -3.057,-5.539 -0.467,-0.997 -1.518,-3.187 -1.311,-4.905 0.061,-0.504 0.183,-1.007 0.363,-1.498 0.600,-1.633 2.728,-3.636 3.970,-4.874 2.982,-2.974 5.894,-6.022 8.894,-8.978 1.248,-1.230 0.893,-2.557 -0.850,-2.731 -1.306,-0.130 -3.803,-0.140 -5.540,0.092 z"/></g><g transform="translate(-45.471,-18.226)"><path style="fill:none;stroke:#ffffff;stroke-width:18.9;stroke-linecap:round;stroke-linejoin:round" d="M 54.921,118.549 115.535,57.935"/></g></svg></div>
-                        <div style="flex: 1; display: flex; align-items: center; gap: 10px;">
-                            <h3 style="font-size: 16px; font-weight: 600; color: #1e3c72; margin: 0;">${escapeHtml(tool.name)}</h3>
-                            <svg class="expand-icon" width="12" height="12" viewBox="0 0 12 12" style="transition: transform 0.2s ease; opacity: 0.6; flex-shrink: 0;">
-                                <path d="M2 4 L6 8 L10 4" fill="none" stroke="#2a5298" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
-                            </svg>
-                        </div>
-                        ${headerAction}
-                    </div>
-                    <div class="tool-description" style="max-height: 0; overflow: hidden; transition: max-height 0.3s ease, padding 0.3s ease; padding: 0 16px;">
-                        <p style="font-size: 13px; color: #5a6c7d; margin: 0; line-height: 1.5; padding-bottom: 16px; border-top: 1px solid #e0e0e0; padding-top: 12px;">${escapeHtml(tool.description || 'No description available')}</p>
-                    </div>
-                    ${paramsHtml}
-                </div>
-            `;
+            grid.appendChild(item);
+        });
+        list.appendChild(grid);
+    }
+    showListState('resources', 'list');
+}
+
+function renderPrompts(message) {
+    if (message.error) {
+        showListState('prompts', 'error', message.error);
+        return;
+    }
+    const prompts = message.prompts || [];
+    if (prompts.length === 0) {
+        showListState('prompts', 'empty', message.unsupported ? 'This server does not offer prompts.' : 'No prompts available.');
+        return;
+    }
+    
+    const list = document.getElementById('prompts-list');
+    if (!list) return;
+    list.innerHTML = '';
+    const grid = document.createElement('div');
+    grid.style.cssText = 'display: grid; gap: 12px;';
+    prompts.forEach(prompt => {
+        // Prompt arguments are always strings, so they map onto a flat object schema
+        const promptArguments = prompt.arguments || [];
+        const properties = {};
+        promptArguments.forEach(argument => {
+            properties[argument.name] = { type: 'string', description: argument.description };
         });
+        const required = promptArguments.filter(argument => argument.required).map(argument => argument.name);
+        const form = createSchemaForm({ type: 'object', properties: properties, required: required }, {});
         
-        html += '</div>';
-        html += `<div style="margin-top: 16px; padding-top: 16px; border-top: 1px solid #e0e0e0; text-align: center; color: #6c757d; font-size: 13px;">Total: ${tools.length} tool${tools.length !== 1 ? 's' : ''}</div>`;
-        toolsList.innerHTML = html;
+        const item = createMcpItem(prompt.title || prompt.name, 'Get Prompt', () => {
+            const result = form.collect();
+            if (!result.valid) return;
+            vscode.postMessage({ command: 'getMcpPrompt', name: prompt.name, arguments: result.value });
+        });
+        appendMcpItemText(item, 'mcp-item-description', prompt.description);
+        if (promptArguments.length > 0) {
+            item.appendChild(form.element);
+        }
+        grid.appendChild(item);
+    });
+    list.appendChild(grid);
+    showListState('prompts', 'list');
+}
+
+function showPromptResult(result) {
+    if (currentResultRunId !== result.runId) return;
+    
+    const status = document.getElementById('result-status');
+    const body = document.getElementById('result-body');
+    if (status) {
+        status.className = 'result-status ' + (result.error ? 'error' : 'success');
+        status.textContent = result.error
+            ? '❌ Could not get the prompt: ' + result.error
+            : '✅ ' + result.messages.length + ' message' + (result.messages.length !== 1 ? 's' : '');
+    }
+    if (!body) return;
+    
+    body.innerHTML = '';
+    if (result.description) {
+        appendMcpItemText(body, 'mcp-item-description', result.description);
     }
+    result.messages.forEach(message => {
+        appendMcpItemText(body, 'result-section-title', message.role === 'assistant' ? 'Assistant' : 'User');
+        message.blocks.forEach(block => body.appendChild(renderResultBlock(result.runId, block)));
+    });
 }
 
 function escapeHtml(text) {
@@ -589,41 +1135,233 @@ function escapeHtml(text) {
     return div.innerHTML;
 }
 
-function addConsoleMessage(message, type, timestamp) {
-    const console = document.getElementById('console-output');
-    if (!console) return;
+const MAX_CONSOLE_ENTRIES = 1000;
+const CONSOLE_COLORS = {
+    info: '#d4d4d4',
+    success: '#4ec9b0',
+    error: '#f48771',
+    command: '#dcdcaa'
+};
+
+function formatConsoleEntry(entry) {
+    return '[' + new Date(entry.time).toLocaleTimeString() + '] ' + entry.message;
+}
+
+function getConsoleFilter() {
+    const types = new Set();
+    document.querySelectorAll('[data-console-type]').forEach(checkbox => {
+        if (checkbox.checked) types.add(checkbox.dataset.consoleType);
+    });
+    const search = document.getElementById('console-search');
+    return { types, text: search ? search.value.trim().toLowerCase() : '' };
+}
+
+function consoleEntryMatches(entry, filter) {
+    return filter.types.has(entry.type) && (!filter.text || entry.message.toLowerCase().includes(filter.text));
+}
+
+function createConsoleLine(entry) {
+    const line = document.createElement('div');
+    line.style.color = CONSOLE_COLORS[entry.type] || CONSOLE_COLORS.info;
+    line.style.marginBottom = '4px';
+    line.style.whiteSpace = 'pre-wrap';
+    const time = document.createElement('span');
+    time.style.color = '#6c757d';
+    time.textContent = '[' + new Date(entry.time).toLocaleTimeString() + ']';
+    line.appendChild(time);
+    line.appendChild(document.createTextNode(' ' + entry.message));
+    return line;
+}
+
+function updateConsoleCount(shown) {
+    const count = document.getElementById('console-count');
+    if (!count) return;
+    count.textContent = shown === consoleEntries.length
+        ? (consoleEntries.length > 0 ? consoleEntries.length + ' line' + (consoleEntries.length !== 1 ? 's' : '') : '')
+        : 'Showing ' + shown + ' of ' + consoleEntries.length + ' lines';
+}
+
+function renderConsole() {
+    const output = document.getElementById('console-output');
+    if (!output) return;
     
-    if (console.querySelector('[style*="italic"]')) {
-        console.innerHTML = '';
+    const filter = getConsoleFilter();
+    const visible = consoleEntries.filter(entry => consoleEntryMatches(entry, filter));
+    output.innerHTML = '';
+    if (visible.length === 0) {
+        const placeholder = document.createElement('div');
+        placeholder.className = 'console-placeholder';
+        placeholder.textContent = consoleEntries.length === 0 ? 'Console output will appear here...' : 'No lines match the filters.';
+        output.appendChild(placeholder);
+    }
+    visible.forEach(entry => output.appendChild(createConsoleLine(entry)));
+    output.scrollTop = output.scrollHeight;
+    updateConsoleCount(visible.length);
+}
+
+function addConsoleEntry(entry) {
+    consoleEntries.push(entry);
+    if (consoleEntries.length > MAX_CONSOLE_ENTRIES) {
+        consoleEntries.splice(0, consoleEntries.length - MAX_CONSOLE_ENTRIES);
+        renderConsole();
+        return;
     }
     
-    const colors = {
-        info: '#d4d4d4',
-        success: '#4ec9b0',
-        error: '#f48771',
-        command: '#dcdcaa'
-    };
-    
-    const line = document.createElement('div');
-    line.style.color = colors[type] || colors.info;
-    line.style.marginBottom = '4px';
-    line.innerHTML = `<span style="color: #6c757d;">[${timestamp}]</span> ${message}`;
+    const filter = getConsoleFilter();
+    updateConsoleCount(consoleEntries.filter(item => consoleEntryMatches(item, filter)).length);
+    const output = document.getElementById('console-output');
+    if (!output || !consoleEntryMatches(entry, filter)) return;
     
-    console.appendChild(line);
-    console.scrollTop = console.scrollHeight;
+    const placeholder = output.querySelector('.console-placeholder');
+    if (placeholder) placeholder.remove();
+    // Only follow new lines when the user hasn't scrolled up to read
+    const atBottom = output.scrollHeight - output.scrollTop - output.clientHeight < 20;
+    output.appendChild(createConsoleLine(entry));
+    if (atBottom) output.scrollTop = output.scrollHeight;
+}
+
+function setConsoleHistory(entries) {
+    consoleEntries.length = 0;
+    consoleEntries.push(...entries.slice(-MAX_CONSOLE_ENTRIES));
+    renderConsole();
+}
+
+function getVisibleConsoleText() {
+    const filter = getConsoleFilter();
+    return consoleEntries
+        .filter(entry => consoleEntryMatches(entry, filter))
+        .map(formatConsoleEntry)
+        .join('\n');
+}
+
+function copyConsole() {
+    vscode.postMessage({ command: 'copyConsole', text: getVisibleConsoleText() });
 }
 
+function exportConsole() {
+    vscode.postMessage({ command: 'exportConsole', text: getVisibleConsoleText() + '\n' });
+}
+
+function clearConsole() {
+    vscode.postMessage({ command: 'clearConsole' });
+}
+
+// What an element with a data-action attribute does when clicked. The
+// Content-Security-Policy blocks inline handlers, so every button is wired here.
+const CLICK_ACTIONS = {
+    switchTab: element => switchTab(element.dataset.tab),
+    quickStart: () => startQuickSetup(),
+    dryRunQuickStart: () => startQuickSetup({ dryRun: true }),
+    resumeQuickStart: () => startQuickSetup({ resume: true }),
+    runStep: element => runStep(element.closest('.step').dataset.step),
+    exportDiagnostics: () => exportDiagnostics(),
+    repairDrift: () => repairDrift(),
+    refreshTools: () => refreshTools(),
+    refreshResources: () => refreshResources(),
+    refreshPrompts: () => refreshPrompts(),
+    toggleTool: element => toggleTool(element),
+    runTool: element => runTool(getToolIndex(element)),
+    resetToolForm: element => resetToolForm(getToolIndex(element)),
+    copyConsole: () => copyConsole(),
+    exportConsole: () => exportConsole(),
+    clearConsole: () => clearConsole(),
+    cancelResultRun: () => cancelResultRun(),
+    closeResultModal: () => closeResultModal(),
+    closeParamModal: () => closeParamModal(),
+    submitToolExecution: () => submitToolExecution()
+};
+
+function getToolIndex(element) {
+    return Number(element.closest('.tool-item').dataset.tool);
+}
+
+// The innermost element with an action wins, so a Run button in a tool's
+// header runs the tool without also toggling it
+document.addEventListener('click', event => {
+    const element = event.target.closest('[data-action]');
+    const action = element && CLICK_ACTIONS[element.dataset.action];
+    if (action) action(element);
+});
+
+document.getElementById('folder-select').addEventListener('change', event => selectFolder(event.target.value));
+document.getElementById('repo-ref-input').addEventListener('change', event => setRepoRef(event.target.value));
+document.getElementById('console-search').addEventListener('input', () => renderConsole());
+document.querySelectorAll('[data-console-type]').forEach(checkbox => checkbox.addEventListener('change', () => renderConsole()));
+
+// Messages are the ExtensionMessage union in src/webviewMessages.ts
 window.addEventListener('message', event => {
     const message = event.data;
     switch (message.command) {
+        case 'quickStartSteps':
+            renderSteps(message.steps);
+            break;
         case 'updateStepStatus':
-            updateStepStatus(message.stepNumber, message.status);
+            updateStepStatus(message.stepId, message.status, message.folder);
+            break;
+        case 'stepStatuses':
+            setStepStatuses(message.statuses);
+            break;
+        case 'agents':
+            renderAgents(message.agents, message.preferredAgent);
+            break;
+        case 'repoRef':
+            showRepoRef(message.repoRef);
+            break;
+        case 'diagnostics':
+            renderDiagnostics(message.checks);
+            break;
+        case 'configDrift':
+            renderConfigDrift(message.drifts);
+            break;
+        case 'workspaceFolders':
+            setWorkspaceFolders(message.folders);
+            break;
+        case 'toolRunStarted':
+            startToolRun(message.runId, message.toolName);
+            break;
+        case 'toolProgress':
+            updateToolProgress(message);
+            break;
+        case 'toolResult':
+            showToolResult(message.result);
+            break;
+        case 'showToolRun':
+            openResultModal(message.result.runId, message.result.toolName);
+            showToolResult(message.result);
+            break;
+        case 'promptRequested':
+            openResultModal(message.runId, message.promptName);
+            break;
+        case 'promptResult':
+            showPromptResult(message.result);
+            break;
+        case 'updateResources':
+            renderResources(message);
+            break;
+        case 'updatePrompts':
+            renderPrompts(message);
             break;
         case 'updateTools':
-            updateTools(message.tools, message.error);
+            updateTools(message.tools, message.error, message.savedArguments);
+            break;
+        case 'openToolForm': {
+            const toolIndex = availableTools.findIndex(tool => tool.name === message.toolName);
+            if (toolIndex !== -1) {
+                switchTab('tools');
+                openParamModal(toolIndex);
+            }
             break;
+        }
         case 'terminalOutput':
-            addConsoleMessage(message.message, message.type, message.timestamp);
+            addConsoleEntry(message.entry);
+            break;
+        case 'consoleHistory':
+            setConsoleHistory(message.entries);
+            break;
+        case 'clearConsole':
+            setConsoleHistory([]);
             break;
     }
 });
+
+restoreViewState();
@@ -0,0 +1,158 @@
+import * as http from 'http';
+
+/** How the mock answers one request */
+export interface MockReply {
+    result?: any;
+    error?: { code: number; message: string };
+    /** Messages sent ahead of the response; forces an event-stream answer */
+    notifications?: any[];
+    /** Answer with this HTTP status and no JSON-RPC message */
+    status?: number;
+    /** Never answer, to test timeouts and cancellation */
+    hang?: boolean;
+    delayMs?: number;
+}
+
+export type MockHandler = (params: any, message: any) => MockReply | Promise<MockReply>;
+
+/**
+ * A Streamable HTTP MCP server for tests. Answers are plain JSON or
+ * server-sent events depending on `mode`; handlers decide the result, error,
+ * HTTP status or delay per method. Every message the client sends is kept in
+ * `received`.
+ */
+export class MockMcpServer {
+    public mode: 'json' | 'sse' = 'json';
+    public readonly received: any[] = [];
+    /** Headers of the last POST */
+    public lastHeaders: http.IncomingHttpHeaders = {};
+    public readonly handlers = new Map<string, MockHandler>();
+    public tools: any[] = [];
+    private sessionId: string | undefined;
+    private nextSession = 1;
+    private server: http.Server | undefined;
+    private readonly openResponses = new Set<http.ServerResponse>();
+    private readonly waiters: { method: string; resolve: (message: any) => void }[] = [];
+
+    constructor() {
+        this.handlers.set('initialize', () => ({
+            result: {
+                protocolVersion: '2025-06-18',
+                capabilities: { tools: { listChanged: true } },
+                serverInfo: { name: 'mock-mcp', version: '1.0.0' }
+            }
+        }));
+        this.handlers.set('ping', () => ({ result: {} }));
+        this.handlers.set('tools/list', () => ({ result: { tools: this.tools } }));
+    }
+
+    public get port(): number {
+        const address = this.server?.address();
+        return typeof address === 'object' && address ? address.port : 0;
+    }
+
+    public start(): Promise<number> {
+        this.server = http.createServer((req, res) => this.handle(req, res));
+        return new Promise(resolve => this.server!.listen(0, '127.0.0.1', () => resolve(this.port)));
+    }
+
+    public stop(): Promise<void> {
+        this.openResponses.forEach(res => res.destroy());
+        this.openResponses.clear();
+        return new Promise(resolve => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close(() => resolve());
+            this.server.closeAllConnections();
+            this.server = undefined;
+        });
+    }
+
+    /** Drops the session like a restarted server, so the next request gets a 404 */
+    public expireSession(): void {
+        this.sessionId = undefined;
+    }
+
+    public methods(): string[] {
+        return this.received.map(message => message.method ?? 'response');
+    }
+
+    /** Resolves with the next message of this method the client sends */
+    public waitFor(method: string): Promise<any> {
+        return new Promise(resolve => this.waiters.push({ method, resolve }));
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        if (req.method !== 'POST') {
+            res.writeHead(405).end();
+            return;
+        }
+
+        this.lastHeaders = req.headers;
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', async () => {
+            const message = JSON.parse(body);
+            this.received.push(message);
+            for (const waiter of this.waiters.filter(item => item.method === message.method)) {
+                this.waiters.splice(this.waiters.indexOf(waiter), 1);
+                waiter.resolve(message);
+            }
+
+            if (message.method !== 'initialize' && req.headers['mcp-session-id'] !== this.sessionId) {
+                res.writeHead(404).end('Session not found');
+                return;
+            }
+            if (message.method === 'initialize') {
+                this.sessionId = `mock-session-${this.nextSession++}`;
+            }
+            // Notifications and responses to our own requests are only acknowledged
+            if (message.id === undefined || message.method === undefined) {
+                res.writeHead(202).end();
+                return;
+            }
+
+            const handler = this.handlers.get(message.method);
+            const reply: MockReply = handler
+                ? await handler(message.params, message)
+                : { error: { code: -32601, message: `Method not found: ${message.method}` } };
+            await this.reply(res, message.id, reply);
+        });
+    }
+
+    private async reply(res: http.ServerResponse, id: number, reply: MockReply): Promise<void> {
+        if (reply.delayMs) {
+            await new Promise(resolve => setTimeout(resolve, reply.delayMs));
+        }
+        const headers: http.OutgoingHttpHeaders = {};
+        if (this.sessionId) {
+            headers['mcp-session-id'] = this.sessionId;
+        }
+        if (reply.status) {
+            res.writeHead(reply.status, headers).end('Mock failure');
+            return;
+        }
+
+        const response = { jsonrpc: '2.0', id, ...(reply.error ? { error: reply.error } : { result: reply.result ?? {} }) };
+        if (this.mode === 'json' && !reply.notifications && !reply.hang) {
+            headers['content-type'] = 'application/json';
+            res.writeHead(200, headers).end(JSON.stringify(response));
+            return;
+        }
+
+        headers['content-type'] = 'text/event-stream';
+        res.writeHead(200, headers);
+        for (const notification of reply.notifications ?? []) {
+            res.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', ...notification })}\n\n`);
+        }
+        if (reply.hang) {
+            this.openResponses.add(res);
+            res.on('close', () => this.openResponses.delete(res));
+            return;
+        }
+        res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+    }
+}
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+/**
+ * Runs the suite in a VS Code instance of its own. The workspace, the user
+ * data directory and the home and app data directories are temporary, so
+ * agent settings written by the tests never touch the real ones.
+ */
+async function main(): Promise<void> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'bluetext-test-'));
+    const workspace = path.join(root, 'workspace');
+    const home = path.join(root, 'home');
+    const appData = path.join(root, 'appdata');
+    const userData = path.join(root, 'user-data');
+    // Step 1 is done already, so Quick Start never opens a terminal for git init
+    fs.mkdirSync(path.join(workspace, '.git'), { recursive: true });
+    fs.mkdirSync(home);
+    fs.mkdirSync(appData);
+
+    const env: Record<string, string> = {};
+    env['HOME'] = home;
+    env['USERPROFILE'] = home;
+    env['APPDATA'] = appData;
+
+    try {
+        await runTests({
+            extensionDevelopmentPath: path.resolve(__dirname, '../../'),
+            extensionTestsPath: path.resolve(__dirname, './suite/index'),
+            launchArgs: [workspace, '--disable-extensions', `--user-data-dir=${userData}`],
+            extensionTestsEnv: env
+        });
+    } catch (error) {
+        console.error('Failed to run tests', error);
+        process.exitCode = 1;
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+}
+
+main();
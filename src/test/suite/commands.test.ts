@@ -0,0 +1,208 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { configureAgent, createPolytopeYml } from '../../commands';
+import { runQuickStart, runQuickStartStep } from '../../quickStart';
+import { getAgent } from '../../agents';
+import { FileWriter } from '../../fileWriter';
+import { WizardPanel } from '../../wizardPanel';
+import { McpService } from '../../mcpService';
+import { BLUETEXT_REPO, hasBluetextInclude, POLYTOPE_FILE_NAME } from '../../polytopeYml';
+import { MockMcpServer } from '../mockMcpServer';
+import { activateExtension, useMcpPort } from '../testUtils';
+
+suite('commands', () => {
+    let folder: vscode.WorkspaceFolder;
+    let polytopePath: string;
+    let clineSettingsPath: string;
+
+    suiteSetup(async () => {
+        folder = await activateExtension();
+        polytopePath = path.join(folder.uri.fsPath, POLYTOPE_FILE_NAME);
+        clineSettingsPath = getAgent('cline')!.getConfigPath(folder)!;
+    });
+
+    // Only ever write the Cline settings of the temporary profile
+    function requireTestProfile(this: Mocha.Context): void {
+        if (!clineSettingsPath.startsWith(os.tmpdir())) {
+            this.skip();
+        }
+    }
+
+    teardown(() => {
+        fs.rmSync(polytopePath, { force: true });
+    });
+
+    suite('createPolytopeYml', () => {
+        test('creates the file with the Bluetext include', async () => {
+            assert.strictEqual(await createPolytopeYml(true, folder), true);
+            assert.ok(hasBluetextInclude(fs.readFileSync(polytopePath, 'utf8')));
+        });
+
+        test('adds the include to an existing file and keeps its content', async () => {
+            fs.writeFileSync(polytopePath, 'include:\n  - gh:example/other\n');
+
+            assert.strictEqual(await createPolytopeYml(true, folder), true);
+            const content = fs.readFileSync(polytopePath, 'utf8');
+            assert.ok(content.includes('gh:example/other'));
+            assert.ok(content.includes(BLUETEXT_REPO));
+        });
+
+        test('leaves a file that already includes Bluetext alone', async () => {
+            await createPolytopeYml(true, folder);
+            const before = fs.statSync(polytopePath).mtimeMs;
+
+            assert.strictEqual(await createPolytopeYml(true, folder), true);
+            assert.strictEqual(fs.statSync(polytopePath).mtimeMs, before);
+        });
+
+        test('never replaces a file it cannot parse', async () => {
+            const broken = 'include: [gh:example/other\n';
+            fs.writeFileSync(polytopePath, broken);
+
+            assert.strictEqual(await createPolytopeYml(true, folder), false);
+            assert.strictEqual(fs.readFileSync(polytopePath, 'utf8'), broken);
+        });
+    });
+
+    suite('configureAgent with Cline', () => {
+        suiteSetup(requireTestProfile);
+
+        teardown(() => {
+            fs.rmSync(clineSettingsPath, { force: true });
+        });
+
+        const configure = () => FileWriter.getInstance().runTransaction('Test', () => configureAgent('cline', folder));
+        const readSettings = () => JSON.parse(fs.readFileSync(clineSettingsPath, 'utf8'));
+
+        test('creates the settings file', async () => {
+            assert.strictEqual(await configure(), true);
+            const server = readSettings().mcpServers.polytope;
+            assert.strictEqual(server.type, 'streamableHttp');
+            assert.match(server.url, /^http:\/\/localhost:\d+\/mcp$/);
+            assert.strictEqual(server.disabled, false);
+        });
+
+        test('treats an empty settings file as new', async () => {
+            fs.mkdirSync(path.dirname(clineSettingsPath), { recursive: true });
+            fs.writeFileSync(clineSettingsPath, '');
+
+            assert.strictEqual(await configure(), true);
+            assert.ok(readSettings().mcpServers.polytope);
+        });
+
+        test('keeps other servers and what the user allowed', async () => {
+            fs.mkdirSync(path.dirname(clineSettingsPath), { recursive: true });
+            fs.writeFileSync(clineSettingsPath, JSON.stringify({
+                mcpServers: {
+                    other: { command: 'other-server' },
+                    polytope: { url: 'http://localhost:1/mcp', alwaysAllow: ['list'], disabled: true }
+                }
+            }));
+
+            assert.strictEqual(await configure(), true);
+            const settings = readSettings();
+            assert.deepStrictEqual(settings.mcpServers.other, { command: 'other-server' });
+            assert.deepStrictEqual(settings.mcpServers.polytope.alwaysAllow, ['list']);
+            assert.strictEqual(settings.mcpServers.polytope.disabled, false);
+        });
+
+        test('refuses to overwrite invalid JSON', async () => {
+            fs.mkdirSync(path.dirname(clineSettingsPath), { recursive: true });
+            fs.writeFileSync(clineSettingsPath, '{ "mcpServers": ');
+
+            assert.strictEqual(await configure(), false);
+            assert.strictEqual(fs.readFileSync(clineSettingsPath, 'utf8'), '{ "mcpServers": ');
+        });
+    });
+
+    suite('runQuickStart', () => {
+        const server = new MockMcpServer();
+
+        suiteSetup(requireTestProfile);
+        suiteSetup(async () => {
+            await useMcpPort(await server.start());
+        });
+
+        suiteTeardown(async () => {
+            McpService.getInstance().stopHealthMonitoring();
+            fs.rmSync(clineSettingsPath, { force: true });
+            await server.stop();
+        });
+
+        test('finishes every step when the server is already running', async () => {
+            await runQuickStart('cline', [folder]);
+
+            const panel = WizardPanel.getInstance();
+            assert.deepStrictEqual(['git', 'polytope', 'agent', 'server'].map(step => panel.getStepStatus(step, folder)), ['done', 'done', 'done', 'done']);
+            assert.ok(hasBluetextInclude(fs.readFileSync(polytopePath, 'utf8')));
+        });
+
+        test('stops at the polytope.yml step when the file cannot be parsed', async () => {
+            fs.writeFileSync(polytopePath, 'include: [\n');
+            const panel = WizardPanel.getInstance();
+            panel.updateStepStatus('agent', 'pending', folder);
+
+            await runQuickStart('cline', [folder]);
+            assert.strictEqual(panel.getStepStatus('polytope', folder), 'error');
+            assert.strictEqual(panel.getStepStatus('agent', folder), 'pending');
+        });
+
+        test('changes nothing on a dry run', async () => {
+            fs.rmSync(clineSettingsPath, { force: true });
+            const panel = WizardPanel.getInstance();
+            panel.updateStepStatus('polytope', 'pending', folder);
+            panel.updateStepStatus('agent', 'pending', folder);
+
+            await runQuickStart('cline', [folder], { dryRun: true });
+            assert.ok(!fs.existsSync(polytopePath));
+            assert.ok(!fs.existsSync(clineSettingsPath));
+            assert.strictEqual(panel.getStepStatus('polytope', folder), 'pending');
+            assert.strictEqual(panel.getStepStatus('agent', folder), 'pending');
+        });
+
+        test('leaves skipped steps alone', async () => {
+            const panel = WizardPanel.getInstance();
+            panel.updateStepStatus('polytope', 'pending', folder);
+
+            await runQuickStart('cline', [folder], { skip: ['polytope'] });
+            assert.ok(!fs.existsSync(polytopePath));
+            assert.strictEqual(panel.getStepStatus('polytope', folder), 'pending');
+            assert.strictEqual(panel.getStepStatus('agent', folder), 'done');
+        });
+
+        test('resumes at the step that failed last time', async () => {
+            fs.writeFileSync(polytopePath, 'include: [\n');
+            const panel = WizardPanel.getInstance();
+            await runQuickStart('cline', [folder]);
+            assert.strictEqual(panel.getStepStatus('polytope', folder), 'error');
+
+            fs.rmSync(polytopePath);
+            // A failed prerequisite check is advisory and is not where resuming starts
+            panel.updateStepStatus('prerequisites', 'error', folder);
+            panel.updateStepStatus('git', 'pending', folder);
+            panel.updateStepStatus('agent', 'pending', folder);
+            await runQuickStart('cline', [folder], { resume: true });
+            assert.strictEqual(panel.getStepStatus('prerequisites', folder), 'error');
+            assert.strictEqual(panel.getStepStatus('git', folder), 'pending');
+            assert.strictEqual(panel.getStepStatus('polytope', folder), 'done');
+            assert.strictEqual(panel.getStepStatus('agent', folder), 'done');
+            assert.ok(hasBluetextInclude(fs.readFileSync(polytopePath, 'utf8')));
+        });
+
+        test('retries a single step', async () => {
+            fs.writeFileSync(polytopePath, 'include: [\n');
+            const panel = WizardPanel.getInstance();
+            assert.strictEqual(await runQuickStartStep('polytope', 'cline', [folder]), false);
+            assert.strictEqual(panel.getStepStatus('polytope', folder), 'error');
+
+            fs.rmSync(polytopePath);
+            panel.updateStepStatus('agent', 'pending', folder);
+            assert.strictEqual(await runQuickStartStep('polytope', 'cline', [folder]), true);
+            assert.strictEqual(panel.getStepStatus('polytope', folder), 'done');
+            assert.strictEqual(panel.getStepStatus('agent', folder), 'pending');
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExtensionHost, findStorageFile, getGlobalStorageDirectories, resolveGlobalStorageFile, StorageDirectory } from '../../agents/globalStorage';
+import { activateExtension } from '../testUtils';
+
+const EXTENSION_ID = 'example.storage-test';
+const HOME = path.join(path.sep, 'home', 'dev');
+
+function host(overrides: Partial<ExtensionHost>): ExtensionHost {
+    return { appName: 'Visual Studio Code', remoteName: undefined, platform: 'linux', env: {}, homedir: HOME, ...overrides };
+}
+
+// Variable names aren't camelCase, so they go in by index
+function env(name: string, value: string): NodeJS.ProcessEnv {
+    const result: NodeJS.ProcessEnv = {};
+    result[name] = value;
+    return result;
+}
+
+function directories(overrides: Partial<ExtensionHost>): string[] {
+    return getGlobalStorageDirectories(host(overrides)).map(directory => directory.path);
+}
+
+suite('getGlobalStorageDirectories', () => {
+    test('lists the extension\'s own global storage first', () => {
+        const own = path.join(HOME, 'profile', 'User', 'globalStorage', 'bluetext.bluetext-setup');
+        assert.deepStrictEqual(directories({ ownStoragePath: own }), [
+            path.dirname(own),
+            path.join(HOME, '.config', 'Code', 'User', 'globalStorage')
+        ]);
+    });
+
+    test('lists a directory once when the own storage is the default one', () => {
+        const own = path.join(HOME, '.config', 'Code', 'User', 'globalStorage', 'bluetext.bluetext-setup');
+        assert.deepStrictEqual(directories({ ownStoragePath: own }), [path.dirname(own)]);
+    });
+
+    test('uses the desktop app data folder of each platform and product', () => {
+        assert.deepStrictEqual(directories({ env: env('XDG_CONFIG_HOME', path.join(HOME, 'config')) }), [
+            path.join(HOME, 'config', 'Code', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ appName: 'Visual Studio Code - Insiders', platform: 'darwin' }), [
+            path.join(HOME, 'Library', 'Application Support', 'Code - Insiders', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ appName: 'Cursor', platform: 'win32', env: env('APPDATA', path.join(HOME, 'Roaming')) }), [
+            path.join(HOME, 'Roaming', 'Cursor', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ appName: 'VSCodium', platform: 'win32' }), [
+            path.join(HOME, 'AppData', 'Roaming', 'VSCodium', 'User', 'globalStorage')
+        ]);
+    });
+
+    test('uses the portable data folder', () => {
+        const portable = path.join(HOME, 'vscode', 'data');
+        assert.deepStrictEqual(directories({ env: env('VSCODE_PORTABLE', portable) }), [
+            path.join(portable, 'user-data', 'User', 'globalStorage')
+        ]);
+    });
+
+    test('uses the server data folder on remote hosts', () => {
+        assert.deepStrictEqual(directories({ remoteName: 'ssh-remote' }), [
+            path.join(HOME, '.vscode-server', 'data', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ remoteName: 'wsl', appName: 'Visual Studio Code - Insiders' }), [
+            path.join(HOME, '.vscode-server-insiders', 'data', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ remoteName: 'ssh-remote', appName: 'Cursor' }), [
+            path.join(HOME, '.cursor-server', 'data', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ remoteName: 'codespaces' }), [
+            path.join(HOME, '.vscode-remote', 'data', 'User', 'globalStorage')
+        ]);
+    });
+
+    test('prefers the server folder the remote host names', () => {
+        const agentFolder = path.join(path.sep, 'opt', 'vscode-server');
+        assert.deepStrictEqual(directories({ remoteName: 'dev-container', env: env('VSCODE_AGENT_FOLDER', agentFolder) }), [
+            path.join(agentFolder, 'data', 'User', 'globalStorage')
+        ]);
+    });
+
+    test('uses the code-server data folder', () => {
+        assert.deepStrictEqual(directories({ appName: 'code-server' }), [
+            path.join(HOME, '.local', 'share', 'code-server', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ appName: 'code-server', env: env('XDG_DATA_HOME', path.join(HOME, 'data')) }), [
+            path.join(HOME, 'data', 'code-server', 'User', 'globalStorage')
+        ]);
+        assert.deepStrictEqual(directories({ appName: 'code-server', platform: 'darwin' }), [
+            path.join(HOME, 'Library', 'Application Support', 'code-server', 'User', 'globalStorage')
+        ]);
+    });
+});
+
+suite('findStorageFile', () => {
+    let root: string;
+    let storage: StorageDirectory[];
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'bluetext-storage-'));
+        storage = ['first', 'second'].map(name => ({ path: path.join(root, name), source: name }));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('uses the first directory when nothing exists', () => {
+        const location = findStorageFile(storage, EXTENSION_ID, 'settings.json');
+        assert.strictEqual(location.path, path.join(storage[0].path, EXTENSION_ID, 'settings.json'));
+        assert.ok(location.candidates.every(candidate => !candidate.exists));
+    });
+
+    test('picks the directory that already holds the file', () => {
+        const existing = path.join(storage[1].path, EXTENSION_ID, 'settings.json');
+        fs.mkdirSync(path.dirname(existing), { recursive: true });
+        fs.writeFileSync(existing, '{}');
+
+        const location = findStorageFile(storage, EXTENSION_ID, 'settings.json');
+        assert.strictEqual(location.path, existing);
+        assert.deepStrictEqual(location.candidates.map(candidate => candidate.exists), [false, true]);
+    });
+
+    test('picks the directory where the extension has storage', () => {
+        fs.mkdirSync(path.join(storage[1].path, EXTENSION_ID), { recursive: true });
+
+        const location = findStorageFile(storage, EXTENSION_ID, 'settings.json');
+        assert.strictEqual(location.path, path.join(storage[1].path, EXTENSION_ID, 'settings.json'));
+    });
+});
+
+suite('resolveGlobalStorageFile', () => {
+    suiteSetup(async () => {
+        await activateExtension();
+    });
+
+    test('lists the editor\'s own global storage first', () => {
+        const location = resolveGlobalStorageFile(EXTENSION_ID, 'settings.json');
+        assert.strictEqual(location.candidates[0].source, 'this editor\'s global storage');
+        assert.strictEqual(location.path, location.candidates[0].path);
+    });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { HealthState, McpHealthMonitor } from '../../healthMonitor';
+import { WizardPanel } from '../../wizardPanel';
+import { activateExtension } from '../testUtils';
+
+/**
+ * Runs on real timers with a fake probe, so a run takes as long as the
+ * monitor's retry delays add up to.
+ */
+suite('McpHealthMonitor', () => {
+    let folder: vscode.WorkspaceFolder;
+    let monitor: McpHealthMonitor;
+    let probe: () => Promise<void>;
+    let states: (HealthState | undefined)[];
+
+    const waitForState = (state: HealthState) => new Promise<void>(resolve => {
+        const listener = monitor.onDidChangeState(changed => {
+            if (changed === state) {
+                listener.dispose();
+                resolve();
+            }
+        });
+    });
+
+    suiteSetup(async () => {
+        folder = await activateExtension();
+    });
+
+    setup(() => {
+        probe = () => Promise.resolve();
+        states = [];
+        monitor = new McpHealthMonitor(() => probe(), () => folder);
+        monitor.onDidChangeState(state => states.push(state));
+    });
+
+    teardown(() => {
+        monitor.stop();
+    });
+
+    test('reports healthy and marks the server step done once the server answers', async () => {
+        const healthy = waitForState('healthy');
+        monitor.start();
+        await healthy;
+
+        assert.deepStrictEqual(states, ['starting', 'healthy']);
+        assert.strictEqual(WizardPanel.getInstance().getStepStatus('server', folder), 'done');
+    });
+
+    test('reports down after three failed checks in a row and recovers with backoff', async () => {
+        probe = () => Promise.reject(new Error('refused'));
+        const down = waitForState('down');
+        monitor.start();
+        // Retries after 1s and 2s
+        await down;
+        assert.deepStrictEqual(states, ['starting', 'down']);
+        assert.strictEqual(WizardPanel.getInstance().getStepStatus('server', folder), 'pending');
+
+        probe = () => Promise.resolve();
+        const healthy = waitForState('healthy');
+        // The next retry comes 4s after the third failure
+        await healthy;
+        assert.deepStrictEqual(states, ['starting', 'down', 'healthy']);
+        assert.strictEqual(WizardPanel.getInstance().getStepStatus('server', folder), 'done');
+    });
+
+    test('reports degraded when the server is slow to answer', async () => {
+        probe = () => new Promise(resolve => setTimeout(resolve, 2100));
+        const degraded = waitForState('degraded');
+        monitor.start();
+        await degraded;
+
+        assert.deepStrictEqual(states, ['starting', 'degraded']);
+    });
+
+    test('ignores a check still running when monitoring stops', async () => {
+        let answer: () => void = () => undefined;
+        probe = () => new Promise(resolve => { answer = resolve; });
+        monitor.start();
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        monitor.stop();
+        answer();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert.deepStrictEqual(states, ['starting', undefined]);
+        assert.strictEqual(monitor.getState(), undefined);
+    });
+});
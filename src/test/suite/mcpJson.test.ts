@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { parseMcpJson, setMcpServer } from '../../mcpJson';
+
+const SERVER = { type: 'http', url: 'http://localhost:31338/mcp' };
+
+suite('setMcpServer', () => {
+    test('adds a server after the others and keeps their layout', () => {
+        const existing = '{\n  "servers": {\n    "other": { "command": "node" }\n  }\n}\n';
+
+        const { content } = setMcpServer(existing, 'polytope', SERVER);
+        assert.ok(content.includes('"other": { "command": "node" },\n    "polytope": {'));
+        assert.deepStrictEqual(parseMcpJson(content).servers.polytope, SERVER);
+    });
+
+    test('reuses a trailing comma instead of adding a second one', () => {
+        const existing = '{\n  "servers": {\n    "other": { "command": "node" },\n  },\n}\n';
+
+        const { content } = setMcpServer(existing, 'polytope', SERVER);
+        assert.ok(!/,\s*,/.test(content));
+        assert.deepStrictEqual(parseMcpJson(content).servers.polytope, SERVER);
+        assert.deepStrictEqual(parseMcpJson(content).servers.other, { command: 'node' });
+    });
+});
@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { McpService } from '../../mcpService';
+import { RenderedToolResult } from '../../toolResults';
+import { ExtensionMessage } from '../../webviewMessages';
+import { WizardPanel } from '../../wizardPanel';
+import { MockMcpServer } from '../mockMcpServer';
+import { activateExtension, useMcpPort, waitUntil } from '../testUtils';
+
+suite('McpService', () => {
+    const server = new MockMcpServer();
+    const service = McpService.getInstance();
+
+    suiteSetup(async () => {
+        await activateExtension();
+        await useMcpPort(await server.start());
+        server.tools = [{ name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } }];
+        server.handlers.set('tools/call', params => ({
+            result: { content: [{ type: 'text', text: params.arguments.text ?? '' }] }
+        }));
+    });
+
+    suiteTeardown(() => server.stop());
+
+    setup(() => {
+        server.mode = 'json';
+    });
+
+    test('initializes a session before the first request', async () => {
+        await service.request('ping');
+        const methods = server.methods();
+        assert.ok(methods.indexOf('initialize') < methods.indexOf('notifications/initialized'));
+        assert.ok(methods.indexOf('notifications/initialized') < methods.lastIndexOf('ping'));
+    });
+
+    test('reads plain JSON responses', async () => {
+        assert.deepStrictEqual(await service.request('ping'), {});
+    });
+
+    test('reads responses framed as server-sent events', async () => {
+        server.mode = 'sse';
+        await service.fetchTools();
+        assert.deepStrictEqual(service.getTools()?.map(tool => tool.name), ['echo']);
+        assert.strictEqual(service.getToolsError(), undefined);
+    });
+
+    test('rejects with the message of a JSON-RPC error', async () => {
+        server.handlers.set('broken', () => ({ error: { code: -32000, message: 'Something broke' } }));
+        await assert.rejects(service.request('broken'), /Something broke/);
+    });
+
+    test('rejects with the status of an HTTP error', async () => {
+        server.handlers.set('unavailable', () => ({ status: 500 }));
+        await assert.rejects(service.request('unavailable'), /HTTP 500/);
+    });
+
+    test('sends the headers from bluetext.mcpHeaders with every request', async () => {
+        const config = vscode.workspace.getConfiguration('bluetext');
+        await config.update('mcpHeaders', { authorization: 'Bearer test-token' }, vscode.ConfigurationTarget.Workspace);
+        try {
+            await service.request('ping');
+            assert.strictEqual(server.lastHeaders.authorization, 'Bearer test-token');
+            assert.ok(server.lastHeaders['mcp-session-id']);
+        } finally {
+            await config.update('mcpHeaders', undefined, vscode.ConfigurationTarget.Workspace);
+        }
+    });
+
+    test('connects to bluetext.mcpUrl instead of the local endpoint when it is set', async () => {
+        const remote = new MockMcpServer();
+        const config = vscode.workspace.getConfiguration('bluetext');
+        await config.update('mcpUrl', `http://127.0.0.1:${await remote.start()}/mcp`, vscode.ConfigurationTarget.Workspace);
+        try {
+            service.resetConnection();
+            await service.request('ping');
+            assert.ok(remote.methods().includes('ping'));
+        } finally {
+            await config.update('mcpUrl', undefined, vscode.ConfigurationTarget.Workspace);
+            service.resetConnection();
+            await remote.stop();
+        }
+    });
+
+    test('re-initializes once when the server has dropped the session', async () => {
+        await service.request('ping');
+        server.expireSession();
+        const initializeCount = server.methods().filter(method => method === 'initialize').length;
+
+        await service.request('ping');
+        assert.strictEqual(server.methods().filter(method => method === 'initialize').length, initializeCount + 1);
+    });
+
+    test('tells the server when it stops waiting for a request', async () => {
+        server.handlers.set('hang', () => ({ hang: true }));
+        const cancelled = server.waitFor('notifications/cancelled');
+
+        await assert.rejects(service.request('hang', {}, 300), /timed out/);
+        const notification = await cancelled;
+        const request = server.received.find(message => message.method === 'hang');
+        assert.strictEqual(notification.params.requestId, request.id);
+    });
+
+    test('calls tools and passes progress on while they run', async () => {
+        server.handlers.set('tools/call', params => ({
+            notifications: [
+                { method: 'notifications/progress', params: { progressToken: params._meta.progressToken, progress: 1, total: 2 } },
+                { method: 'notifications/progress', params: { progressToken: params._meta.progressToken, progress: 2, total: 2 } }
+            ],
+            result: { content: [{ type: 'text', text: params.arguments.text }] }
+        }));
+
+        // Record what the wizard is sent while the tool runs
+        const panel = WizardPanel.getInstance();
+        const sent: ExtensionMessage[] = [];
+        const sendMessage = panel.sendMessage;
+        panel.sendMessage = message => {
+            sent.push(message);
+            sendMessage.call(panel, message);
+        };
+        let result: RenderedToolResult;
+        try {
+            result = await service.executeTool('echo', {}, { text: 'hello' });
+        } finally {
+            panel.sendMessage = sendMessage;
+        }
+
+        assert.strictEqual(result.status, 'success');
+        assert.strictEqual(result.cancelled, undefined);
+        const progress = sent.flatMap(message => message.command === 'toolProgress' ? [[message.runId, message.progress, message.total]] : []);
+        assert.deepStrictEqual(progress, [
+            [result.runId, 1, 2],
+            [result.runId, 2, 2]
+        ]);
+    });
+
+    test('cancels a running tool call', async () => {
+        server.handlers.set('tools/call', () => ({ hang: true }));
+        const call = server.waitFor('tools/call');
+        const cancelled = server.waitFor('notifications/cancelled');
+
+        const run = service.executeTool('echo', {}, { text: 'never' });
+        const message = await call;
+        service.cancelToolRun(message.params._meta.progressToken);
+
+        const result = await run;
+        assert.strictEqual(result.cancelled, true);
+        assert.strictEqual((await cancelled).params.requestId, message.id);
+    });
+
+    test('fetches the tool list again when the server says it changed', async () => {
+        server.tools = [{ name: 'echo', inputSchema: { type: 'object' } }, { name: 'reverse', inputSchema: { type: 'object' } }];
+        server.handlers.set('tools/call', () => ({
+            notifications: [{ method: 'notifications/tools/list_changed' }],
+            result: { content: [] }
+        }));
+        const refreshed = server.waitFor('tools/list');
+
+        await service.executeTool('echo', {}, {});
+        await refreshed;
+        await waitUntil(() => service.getTools()?.length === 2);
+        assert.deepStrictEqual(service.getTools()?.map(tool => tool.name), ['echo', 'reverse']);
+    });
+});
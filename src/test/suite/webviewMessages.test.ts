@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import { InvalidWizardMessageError, parseWizardMessage } from '../../webviewMessages';
+
+suite('parseWizardMessage', () => {
+    test('accepts a known command with its fields', () => {
+        const message = parseWizardMessage({ command: 'runQuickStartStep', stepId: 'agent', agentChoice: 'cline', folder: null });
+        assert.deepStrictEqual(message, { command: 'runQuickStartStep', stepId: 'agent', agentChoice: 'cline', folder: null });
+    });
+
+    test('rejects unknown commands and values that are not messages', () => {
+        assert.throws(() => parseWizardMessage({ command: 'runShell', script: 'rm -rf /' }), InvalidWizardMessageError);
+        assert.throws(() => parseWizardMessage('startMCP'), InvalidWizardMessageError);
+        assert.throws(() => parseWizardMessage(null), InvalidWizardMessageError);
+    });
+
+    test('rejects a message with a missing or mistyped field', () => {
+        assert.throws(() => parseWizardMessage({ command: 'runMcpTool' }), /Invalid runMcpTool message/);
+        assert.throws(() => parseWizardMessage({ command: 'quickStart', agentChoice: 'cline', skip: [1] }), /Invalid quickStart message/);
+        assert.throws(() => parseWizardMessage({ command: 'cancelToolRun', runId: '1' }), /Invalid cancelToolRun message/);
+        assert.throws(() => parseWizardMessage({ command: 'openMcpResource', uri: 'x://a', templateValues: { id: 1 } }), InvalidWizardMessageError);
+    });
+});
@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+
+const EXTENSION_ID = 'bluetext.bluetext-setup';
+
+/**
+ * Activates the extension so the singletons the tests use have their
+ * storage, and returns the folder the test run opened.
+ */
+export async function activateExtension(): Promise<vscode.WorkspaceFolder> {
+    await vscode.extensions.getExtension(EXTENSION_ID)?.activate();
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        throw new Error('The tests must run with a workspace folder open');
+    }
+    return folder;
+}
+
+/** Points the extension at a mock server for the rest of the run */
+export async function useMcpPort(port: number): Promise<void> {
+    await vscode.workspace.getConfiguration('bluetext').update('mcpPort', port, vscode.ConfigurationTarget.Workspace);
+}
+
+/** Polls until `condition` holds, for state that settles after an event */
+export async function waitUntil(condition: () => boolean, timeoutMs: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Condition not met within ${timeoutMs} ms`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+}
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import MarkdownIt from 'markdown-it';
+import { formatSchemaPath, JsonSchema, validateSchema } from './jsonSchema';
+
+// Tool output is rendered into the webview, so raw HTML in it stays escaped
+const markdown = new MarkdownIt({ html: false, linkify: true });
+
+const MAX_RESOURCE_PREVIEW = 400;
+
+const LANGUAGES_BY_MIME_TYPE = new Map([
+    ['application/json', 'json'],
+    ['text/markdown', 'markdown'],
+    ['text/html', 'html'],
+    ['text/x-python', 'python'],
+    ['application/x-yaml', 'yaml'],
+    ['text/yaml', 'yaml']
+]);
+
+const LANGUAGES_BY_EXTENSION = new Map([
+    ['.json', 'json'], ['.md', 'markdown'], ['.yml', 'yaml'], ['.yaml', 'yaml'], ['.py', 'python'],
+    ['.ts', 'typescript'], ['.tsx', 'typescriptreact'], ['.js', 'javascript'], ['.html', 'html'], ['.sql', 'sql']
+]);
+
+/** One MCP content block as returned by tools/call */
+export interface ToolContent {
+    type: string;
+    text?: string;
+    data?: string;
+    mimeType?: string;
+    uri?: string;
+    name?: string;
+    title?: string;
+    description?: string;
+    resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
+}
+
+export interface ToolCallResult {
+    content?: ToolContent[];
+    structuredContent?: unknown;
+    isError?: boolean;
+}
+
+/** What the webview renders for one content block */
+export type RenderedBlock =
+    | { kind: 'markdown'; html: string }
+    | { kind: 'image'; src: string; mimeType: string }
+    | { kind: 'audio'; src: string; mimeType: string }
+    | { kind: 'resource'; index: number; uri: string; mimeType?: string; preview?: string }
+    | { kind: 'link'; index: number; uri: string; name: string; description?: string }
+    | { kind: 'unknown'; json: string };
+
+export interface RenderedToolResult {
+    runId: number;
+    toolName: string;
+    status: 'success' | 'error';
+    durationMs: number;
+    blocks: RenderedBlock[];
+    structuredContent?: string;
+    /** Mismatches between structuredContent and the tool's outputSchema */
+    schemaErrors?: string[];
+    /** Set when the call itself failed rather than the tool reporting an error */
+    error?: string;
+    /** The user cancelled the call before it answered */
+    cancelled?: boolean;
+}
+
+export interface PromptMessage {
+    role: string;
+    content: ToolContent;
+}
+
+export interface RenderedPrompt {
+    runId: number;
+    promptName: string;
+    description?: string;
+    messages: { role: string; blocks: RenderedBlock[] }[];
+    /** Set when prompts/get failed */
+    error?: string;
+}
+
+/**
+ * Turns a tools/call result into blocks the webview can show without
+ * interpreting MCP itself: text as markdown, media as data URIs, and
+ * resources as references the extension opens on request.
+ */
+export function renderToolResult(
+    runId: number,
+    toolName: string,
+    result: ToolCallResult | undefined,
+    outputSchema: JsonSchema | undefined,
+    durationMs: number
+): RenderedToolResult {
+    const blocks = (result?.content ?? []).map((block, index) => renderBlock(block, index));
+    const rendered: RenderedToolResult = {
+        runId,
+        toolName,
+        status: result?.isError ? 'error' : 'success',
+        durationMs,
+        blocks
+    };
+
+    if (result?.structuredContent !== undefined) {
+        rendered.structuredContent = JSON.stringify(result.structuredContent, null, 2);
+        if (outputSchema && !result.isError) {
+            rendered.schemaErrors = validateSchema(result.structuredContent, outputSchema)
+                .map(error => `${formatSchemaPath(error.path)}: ${error.message}`);
+        }
+    } else if (outputSchema && !result?.isError) {
+        rendered.schemaErrors = ['The tool declares an outputSchema but returned no structuredContent'];
+    }
+    return rendered;
+}
+
+/**
+ * Opens an embedded resource as an editor: text in an untitled document,
+ * binary content from a temporary file.
+ */
+export async function openEmbeddedResource(block: ToolContent): Promise<void> {
+    const resource = block.resource;
+    if (!resource) {
+        return;
+    }
+    if (resource.text !== undefined) {
+        const document = await vscode.workspace.openTextDocument({
+            content: resource.text,
+            language: guessLanguage(resource.uri, resource.mimeType)
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+        return;
+    }
+    if (resource.blob !== undefined) {
+        const fileName = path.basename(vscode.Uri.parse(resource.uri).path) || 'resource';
+        const filePath = path.join(os.tmpdir(), `bluetext-${Date.now()}-${fileName}`);
+        fs.writeFileSync(filePath, Buffer.from(resource.blob, 'base64'));
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(filePath));
+    }
+}
+
+/**
+ * Renders a prompts/get result like a tool result. Each message holds one
+ * content block, so a block's index is its message's index.
+ */
+export function renderPromptResult(runId: number, promptName: string, description: string | undefined, messages: PromptMessage[]): RenderedPrompt {
+    return {
+        runId,
+        promptName,
+        description,
+        messages: messages.map((message, index) => ({ role: message.role, blocks: [renderBlock(message.content, index)] }))
+    };
+}
+
+function renderBlock(block: ToolContent, index: number): RenderedBlock {
+    switch (block.type) {
+        case 'text':
+            return { kind: 'markdown', html: markdown.render(block.text ?? '') };
+        case 'image':
+            if (block.data && block.mimeType?.startsWith('image/')) {
+                return { kind: 'image', src: `data:${block.mimeType};base64,${block.data}`, mimeType: block.mimeType };
+            }
+            break;
+        case 'audio':
+            if (block.data && block.mimeType?.startsWith('audio/')) {
+                return { kind: 'audio', src: `data:${block.mimeType};base64,${block.data}`, mimeType: block.mimeType };
+            }
+            break;
+        case 'resource':
+            if (block.resource) {
+                const text = block.resource.text;
+                return {
+                    kind: 'resource',
+                    index,
+                    uri: block.resource.uri,
+                    mimeType: block.resource.mimeType,
+                    preview: text !== undefined
+                        ? text.slice(0, MAX_RESOURCE_PREVIEW) + (text.length > MAX_RESOURCE_PREVIEW ? '…' : '')
+                        : undefined
+                };
+            }
+            break;
+        case 'resource_link':
+            if (block.uri) {
+                return {
+                    kind: 'link',
+                    index,
+                    uri: block.uri,
+                    name: block.title ?? block.name ?? block.uri,
+                    description: block.description
+                };
+            }
+            break;
+    }
+    return { kind: 'unknown', json: JSON.stringify(block, null, 2) };
+}
+
+export function guessLanguage(uri: string, mimeType: string | undefined): string {
+    return (mimeType ? LANGUAGES_BY_MIME_TYPE.get(mimeType) : undefined)
+        ?? LANGUAGES_BY_EXTENSION.get(path.extname(vscode.Uri.parse(uri).path).toLowerCase())
+        ?? 'plaintext';
+}
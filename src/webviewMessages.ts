@@ -0,0 +1,129 @@
+import { AgentDescriptor } from './agents';
+import { ConsoleEntry, StepStatus } from './wizardPanel';
+import { FolderInfo } from './workspaceFolders';
+import { ToolProgress } from './mcpService';
+import { QuickStartStepInfo } from './quickStart';
+import { RenderedPrompt, RenderedToolResult } from './toolResults';
+import { formatSchemaPath, JsonSchema, validateSchema } from './jsonSchema';
+
+/** A folder URI from the wizard's folder picker; null before one is picked */
+type FolderTarget = string | null;
+
+/** Messages the wizard webview sends to the extension */
+export type WizardMessage =
+    | { command: 'fixDiagnostic'; checkId: string }
+    | { command: 'exportDiagnostics' }
+    | { command: 'selectFolder'; folder: string }
+    | { command: 'setRepoRef'; repoRef: string }
+    | { command: 'repairDrift' }
+    | { command: 'quickStart'; agentChoice: string; folder?: FolderTarget; dryRun?: boolean; resume?: boolean; skip?: string[] }
+    | { command: 'runQuickStartStep'; stepId: string; agentChoice: string; folder?: FolderTarget }
+    | { command: 'fetchMcpTools' }
+    | { command: 'runMcpTool'; toolName: string; toolSchema?: unknown; parameters?: Record<string, unknown> }
+    | { command: 'cancelToolRun'; runId: number }
+    | { command: 'openToolContent'; runId: number; index: number }
+    | { command: 'fetchMcpResources' }
+    | { command: 'openMcpResource'; uri: string; templateValues?: Record<string, string> }
+    | { command: 'fetchMcpPrompts' }
+    | { command: 'getMcpPrompt'; name: string; arguments?: Record<string, string> }
+    | { command: 'clearConsole' }
+    | { command: 'copyConsole'; text: string }
+    | { command: 'exportConsole'; text: string };
+
+/** A failed or warning diagnostics check, as the wizard lists it */
+export interface DiagnosticSummary {
+    id: string;
+    label: string;
+    status: string;
+    detail?: string;
+    fixTitle?: string;
+}
+
+/** An agent config whose Bluetext entry no longer matches, as the wizard lists it */
+export interface DriftSummary {
+    agentName: string;
+    folderName?: string;
+    serverName: string;
+    configPath?: string;
+    differences: string[];
+}
+
+/** Messages the extension sends to the wizard webview */
+export type ExtensionMessage =
+    | { command: 'quickStartSteps'; steps: QuickStartStepInfo[] }
+    | { command: 'updateStepStatus'; stepId: string; status: StepStatus; folder?: string }
+    | { command: 'stepStatuses'; statuses: Record<string, Record<string, StepStatus>> }
+    | { command: 'agents'; agents: AgentDescriptor[]; preferredAgent: string }
+    | { command: 'repoRef'; repoRef: string }
+    | { command: 'diagnostics'; checks: DiagnosticSummary[] }
+    | { command: 'configDrift'; drifts: DriftSummary[] }
+    | { command: 'workspaceFolders'; folders: FolderInfo[] }
+    | { command: 'updateTools'; tools: any[]; savedArguments?: Record<string, any>; error?: string }
+    | { command: 'openToolForm'; toolName: string }
+    | { command: 'toolRunStarted'; runId: number; toolName: string }
+    | ({ command: 'toolProgress'; runId: number } & ToolProgress)
+    | { command: 'toolResult'; result: RenderedToolResult }
+    | { command: 'showToolRun'; result: RenderedToolResult }
+    | { command: 'updateResources'; resources: any[]; templates: any[]; unsupported?: boolean; error?: string }
+    | { command: 'updatePrompts'; prompts: any[]; unsupported?: boolean; error?: string }
+    | { command: 'promptRequested'; runId: number; promptName: string }
+    | { command: 'promptResult'; result: RenderedPrompt }
+    | { command: 'terminalOutput'; entry: ConsoleEntry }
+    | { command: 'consoleHistory'; entries: ConsoleEntry[] }
+    | { command: 'clearConsole' };
+
+const FOLDER_TARGET: JsonSchema = { type: ['string', 'null'] };
+const STRING_MAP: JsonSchema = { type: 'object', additionalProperties: { type: 'string' } };
+
+// The fields each wizard message must carry, checked before it is handled
+const WIZARD_MESSAGE_SCHEMAS = new Map<WizardMessage['command'], JsonSchema>([
+    ['fixDiagnostic', { properties: { checkId: { type: 'string' } }, required: ['checkId'] }],
+    ['exportDiagnostics', {}],
+    ['selectFolder', { properties: { folder: { type: 'string' } }, required: ['folder'] }],
+    ['setRepoRef', { properties: { repoRef: { type: 'string', maxLength: 200 } }, required: ['repoRef'] }],
+    ['repairDrift', {}],
+    ['quickStart', {
+        properties: {
+            agentChoice: { type: 'string' },
+            folder: FOLDER_TARGET,
+            dryRun: { type: 'boolean' },
+            resume: { type: 'boolean' },
+            skip: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['agentChoice']
+    }],
+    ['runQuickStartStep', { properties: { stepId: { type: 'string' }, agentChoice: { type: 'string' }, folder: FOLDER_TARGET }, required: ['stepId', 'agentChoice'] }],
+    ['fetchMcpTools', {}],
+    ['runMcpTool', { properties: { toolName: { type: 'string' }, parameters: { type: 'object' } }, required: ['toolName'] }],
+    ['cancelToolRun', { properties: { runId: { type: 'integer' } }, required: ['runId'] }],
+    ['openToolContent', { properties: { runId: { type: 'integer' }, index: { type: 'integer', minimum: 0 } }, required: ['runId', 'index'] }],
+    ['fetchMcpResources', {}],
+    ['openMcpResource', { properties: { uri: { type: 'string' }, templateValues: STRING_MAP }, required: ['uri'] }],
+    ['fetchMcpPrompts', {}],
+    ['getMcpPrompt', { properties: { name: { type: 'string' }, arguments: STRING_MAP }, required: ['name'] }],
+    ['clearConsole', {}],
+    ['copyConsole', { properties: { text: { type: 'string' } }, required: ['text'] }],
+    ['exportConsole', { properties: { text: { type: 'string' } }, required: ['text'] }]
+]);
+
+/** Thrown for a webview message that isn't one of the known commands or is missing fields */
+export class InvalidWizardMessageError extends Error {}
+
+/**
+ * Checks a message posted by the webview against the schema of its command.
+ * The webview renders server-supplied content, so nothing it sends is
+ * trusted until it has passed here.
+ */
+export function parseWizardMessage(value: unknown): WizardMessage {
+    const command = typeof value === 'object' && value !== null ? (value as { command?: unknown }).command : undefined;
+    const schema = typeof command === 'string' ? WIZARD_MESSAGE_SCHEMAS.get(command as WizardMessage['command']) : undefined;
+    if (!schema) {
+        throw new InvalidWizardMessageError(`Unknown command: ${JSON.stringify(command)}`);
+    }
+
+    const [error] = validateSchema(value, { ...schema, type: 'object' });
+    if (error) {
+        throw new InvalidWizardMessageError(`Invalid ${command} message: ${formatSchemaPath(error.path)}: ${error.message}`);
+    }
+    return value as WizardMessage;
+}
@@ -1,10 +1,43 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { describeFolders } from './workspaceFolders';
+import { describeAgents } from './agents';
+import { getSettings } from './settings';
+import { ExtensionMessage, parseWizardMessage, WizardMessage } from './webviewMessages';
+
+const CONSOLE_HISTORY_KEY = 'bluetext.consoleHistory';
+const STEP_STATUS_KEY = 'bluetext.stepStatuses';
+const MAX_CONSOLE_ENTRIES = 1000;
+const SAVE_HISTORY_DELAY_MS = 1000;
+
+export type ConsoleMessageType = 'info' | 'success' | 'error' | 'command';
+export type StepStatus = 'pending' | 'doing' | 'done' | 'error';
+
+/** One line of the wizard's console */
+export interface ConsoleEntry {
+    message: string;
+    type: ConsoleMessageType;
+    /** Milliseconds since the epoch */
+    time: number;
+}
 
 export class WizardPanel {
     private panel: vscode.WebviewPanel | undefined;
     private static instance: WizardPanel | undefined;
+    private history: ConsoleEntry[] = [];
+    private storage: vscode.Memento | undefined;
+    // Finished and failed Quick Start steps by id, per folder URI; pending and running steps aren't kept
+    private stepStatuses: Record<string, Record<string, StepStatus>> = {};
+    private saveHistoryTimer: NodeJS.Timeout | undefined;
+    private logChannel: vscode.LogOutputChannel | undefined;
+    // Listeners on the current panel, disposed with it
+    private panelDisposables: vscode.Disposable[] = [];
+
+    // Validated messages from whichever panel is open, so handlers are registered once
+    private readonly messageEmitter = new vscode.EventEmitter<WizardMessage>();
+    public readonly onDidReceiveMessage = this.messageEmitter.event;
 
     private constructor() {}
 
@@ -15,67 +48,228 @@ export class WizardPanel {
         return WizardPanel.instance;
     }
 
-    public createOrShow(extensionPath: string): vscode.Webview | undefined {
+    /**
+     * Reveals the wizard, creating it if needed. Returns true when a new panel
+     * was created and needs its initial state sent.
+     */
+    public createOrShow(extensionPath: string): boolean {
         if (this.panel) {
             this.panel.reveal(vscode.ViewColumn.One);
-            return this.panel.webview;
+            return false;
         }
 
-        this.panel = vscode.window.createWebviewPanel(
+        const panel = vscode.window.createWebviewPanel(
             'bluetextSetup',
             'Bluetext Setup Wizard',
             vscode.ViewColumn.One,
-            {
-                enableScripts: true,
-                retainContextWhenHidden: true,
-                localResourceRoots: [vscode.Uri.file(path.join(extensionPath, 'src', 'templates'))]
-            }
+            { retainContextWhenHidden: true }
         );
+        this.attach(panel, extensionPath);
+        return true;
+    }
+
+    /**
+     * Takes over a panel VS Code restored after a reload, which needs its
+     * content set up again like a new one.
+     */
+    public revive(panel: vscode.WebviewPanel, extensionPath: string): void {
+        this.panel?.dispose();
+        this.attach(panel, extensionPath);
+    }
 
-        this.panel.webview.html = this.getWebviewContent(this.panel.webview, extensionPath);
+    private attach(panel: vscode.WebviewPanel, extensionPath: string): void {
+        this.panel = panel;
+        panel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.file(path.join(extensionPath, 'src', 'templates'))]
+        };
+        panel.webview.html = this.getWebviewContent(panel.webview, extensionPath);
 
-        this.panel.onDidDispose(() => {
-            this.panel = undefined;
-        });
+        this.panelDisposables.forEach(disposable => disposable.dispose());
+        this.panelDisposables = [
+            panel.webview.onDidReceiveMessage(value => this.receiveMessage(value)),
+            panel.onDidDispose(() => {
+                if (this.panel === panel) {
+                    this.panel = undefined;
+                    this.panelDisposables.forEach(disposable => disposable.dispose());
+                    this.panelDisposables = [];
+                }
+            })
+        ];
+    }
 
-        return this.panel.webview;
+    private receiveMessage(value: unknown): void {
+        let message: WizardMessage;
+        try {
+            message = parseWizardMessage(value);
+        } catch (error) {
+            this.getLogChannel().warn(`Ignored a message from the wizard: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        this.messageEmitter.fire(message);
     }
 
     public getWebview(): vscode.Webview | undefined {
         return this.panel?.webview;
     }
 
-    public sendMessage(message: any): void {
+    public sendMessage(message: ExtensionMessage): void {
         this.panel?.webview.postMessage(message);
     }
 
-    public logToTerminal(message: string, type: 'info' | 'success' | 'error' | 'command' = 'info'): void {
-        this.sendMessage({
-            command: 'terminalOutput',
-            message: message,
-            type: type,
-            timestamp: new Date().toLocaleTimeString()
+    /**
+     * Restores the console history and step statuses kept in workspace state,
+     * so they survive closing the wizard and reloading the window.
+     */
+    public setStorage(storage: vscode.Memento): void {
+        this.storage = storage;
+        this.history = [...storage.get<ConsoleEntry[]>(CONSOLE_HISTORY_KEY, []), ...this.history].slice(-MAX_CONSOLE_ENTRIES);
+        this.stepStatuses = storage.get<Record<string, Record<string, StepStatus>>>(STEP_STATUS_KEY, {});
+    }
+
+    /**
+     * Writes a line to the wizard's console and the "Bluetext" output channel,
+     * and keeps it in the history whether or not the wizard is open.
+     */
+    public logToTerminal(message: string, type: ConsoleMessageType = 'info'): void {
+        const entry: ConsoleEntry = { message, type, time: Date.now() };
+        this.history.push(entry);
+        if (this.history.length > MAX_CONSOLE_ENTRIES) {
+            this.history.splice(0, this.history.length - MAX_CONSOLE_ENTRIES);
+        }
+        this.scheduleHistorySave();
+
+        const log = this.getLogChannel();
+        if (type === 'error') {
+            log.error(message);
+        } else {
+            log.info(message);
+        }
+
+        this.sendMessage({ command: 'terminalOutput', entry });
+    }
+
+    public sendConsoleHistory(): void {
+        this.sendMessage({ command: 'consoleHistory', entries: this.history });
+    }
+
+    public clearConsole(): void {
+        this.history = [];
+        this.scheduleHistorySave();
+        this.sendMessage({ command: 'clearConsole' });
+    }
+
+    /**
+     * Saves console text (as filtered in the wizard) to a file the user picks.
+     */
+    public async exportConsole(text: string): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, 'bluetext-console.log') : undefined,
+            saveLabel: 'Export'
         });
+        if (!target) {
+            return;
+        }
+        await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf8'));
+        vscode.window.showInformationMessage(`Console exported to ${vscode.workspace.asRelativePath(target)}`);
+    }
+
+    private getLogChannel(): vscode.LogOutputChannel {
+        if (!this.logChannel) {
+            this.logChannel = vscode.window.createOutputChannel('Bluetext', { log: true });
+        }
+        return this.logChannel;
+    }
+
+    // Many lines arrive in bursts, so they are written to workspace state together
+    private scheduleHistorySave(): void {
+        if (!this.storage || this.saveHistoryTimer) {
+            return;
+        }
+        this.saveHistoryTimer = setTimeout(() => {
+            this.saveHistoryTimer = undefined;
+            this.storage?.update(CONSOLE_HISTORY_KEY, this.history);
+        }, SAVE_HISTORY_DELAY_MS);
+    }
+
+    private saveStepStatus(stepId: string, status: StepStatus, folder: vscode.WorkspaceFolder): void {
+        const key = folder.uri.toString();
+        const statuses = { ...this.stepStatuses[key] };
+        if (status === 'done' || status === 'error') {
+            statuses[stepId] = status;
+        } else {
+            delete statuses[stepId];
+        }
+        this.stepStatuses = { ...this.stepStatuses, [key]: statuses };
+        this.storage?.update(STEP_STATUS_KEY, this.stepStatuses);
     }
 
-    public updateStepStatus(stepNumber: number, status: 'pending' | 'doing' | 'done' | 'error'): void {
+    /**
+     * Updates a step for one workspace folder. Without a folder the update
+     * applies to whichever folder the wizard currently has selected.
+     */
+    public updateStepStatus(stepId: string, status: StepStatus, folder?: vscode.WorkspaceFolder): void {
+        if (folder) {
+            this.saveStepStatus(stepId, status, folder);
+        }
         this.sendMessage({
             command: 'updateStepStatus',
-            stepNumber: stepNumber,
-            status: status
+            stepId: stepId,
+            status: status,
+            folder: folder?.uri.toString()
         });
     }
 
+    public getStepStatus(stepId: string, folder: vscode.WorkspaceFolder): StepStatus {
+        return this.stepStatuses[folder.uri.toString()]?.[stepId] ?? 'pending';
+    }
+
+    public sendStepStatuses(): void {
+        this.sendMessage({ command: 'stepStatuses', statuses: this.stepStatuses });
+    }
+
+    public async sendAgents(): Promise<void> {
+        this.sendMessage({
+            command: 'agents',
+            agents: await describeAgents(),
+            preferredAgent: getSettings().preferredAgent
+        });
+    }
+
+    public sendRepoRef(): void {
+        this.sendMessage({
+            command: 'repoRef',
+            repoRef: getSettings().repoRef
+        });
+    }
+
+    public sendWorkspaceFolders(): void {
+        this.sendMessage({
+            command: 'workspaceFolders',
+            folders: describeFolders()
+        });
+    }
+
+    /**
+     * Loads wizard.html with its scripts. The Content-Security-Policy only runs
+     * scripts carrying this load's nonce, so markup that ends up in the page
+     * from server-supplied content can't execute anything.
+     */
     private getWebviewContent(webview: vscode.Webview, extensionPath: string): string {
         const templatesPath = path.join(extensionPath, 'src', 'templates');
         const htmlPath = path.join(templatesPath, 'wizard.html');
-        const jsPath = path.join(templatesPath, 'wizard.js');
+        const nonce = crypto.randomBytes(16).toString('base64');
+
+        let html = fs.readFileSync(htmlPath, 'utf8')
+            .replace(/\{\{cspSource\}\}/g, webview.cspSource)
+            .replace(/\{\{nonce\}\}/g, nonce);
+
+        for (const script of ['schemaForm.js', 'wizard.js']) {
+            const jsUri = webview.asWebviewUri(vscode.Uri.file(path.join(templatesPath, script)));
+            html = html.replace(`src="${script}"`, `src="${jsUri}"`);
+        }
 
-        let html = fs.readFileSync(htmlPath, 'utf8');
-        
-        const jsUri = webview.asWebviewUri(vscode.Uri.file(jsPath));
-        html = html.replace('<script src="wizard.js"></script>', `<script src="${jsUri}"></script>`);
-        
         return html;
     }
 }
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { describeMcpEndpoint, getMcpPort } from './settings';
+
+/** Target value the wizard sends to run a command against every workspace folder. */
+export const ALL_FOLDERS = 'all';
+
+export interface FolderInfo {
+    uri: string;
+    name: string;
+    port: number;
+    /** The server URL as shown in step labels */
+    endpoint: string;
+}
+
+export function getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+    return vscode.workspace.workspaceFolders ?? [];
+}
+
+export function findWorkspaceFolder(uri: string | undefined): vscode.WorkspaceFolder | undefined {
+    if (!uri) {
+        return undefined;
+    }
+    return getWorkspaceFolders().find(folder => folder.uri.toString() === uri);
+}
+
+/**
+ * Resolves which folders a command should act on. An explicit folder URI or
+ * `ALL_FOLDERS` wins; otherwise a single-root workspace uses its only folder
+ * and a multi-root workspace asks the user. Returns undefined if the user
+ * dismisses the picker and an empty array if no folder is open.
+ */
+export async function resolveTargetFolders(target?: string, allowAll: boolean = false): Promise<vscode.WorkspaceFolder[] | undefined> {
+    const folders = getWorkspaceFolders();
+
+    if (target === ALL_FOLDERS) {
+        return [...folders];
+    }
+    const explicit = findWorkspaceFolder(target);
+    if (explicit) {
+        return [explicit];
+    }
+    if (folders.length <= 1) {
+        return [...folders];
+    }
+
+    const items: (vscode.QuickPickItem & { folders: vscode.WorkspaceFolder[] })[] = folders.map(folder => ({
+        label: folder.name,
+        description: `port ${getMcpPort(folder)}`,
+        detail: folder.uri.fsPath,
+        folders: [folder]
+    }));
+    if (allowAll) {
+        items.push({ label: 'All folders', description: `${folders.length} folders`, folders: [...folders] });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the workspace folder to set up'
+    });
+    return picked?.folders;
+}
+
+/**
+ * Name of the MCP server entry written into agent configs. The first folder
+ * keeps the plain name so single-root setups are unchanged; other folders get
+ * a suffix so their entries can live side by side in global agent settings.
+ */
+export function getServerName(folder: vscode.WorkspaceFolder | undefined, baseName: string = 'polytope'): string {
+    if (!folder || folder.index === 0) {
+        return baseName;
+    }
+    const slug = folder.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${baseName}-${slug || folder.index}`;
+}
+
+export function describeFolders(): FolderInfo[] {
+    return getWorkspaceFolders().map(folder => ({
+        uri: folder.uri.toString(),
+        name: folder.name,
+        port: getMcpPort(folder),
+        endpoint: describeMcpEndpoint(folder)
+    }));
+}